@@ -0,0 +1,38 @@
+import { AppTestHookContext } from '../../core-framework/config/app-hooks';
+
+/**
+ * Generic application lifecycle hooks
+ * Picked up automatically by global setup/teardown and the app fixtures
+ */
+
+/**
+ * Generic application beforeSuite setup
+ * This runs once before all tests in the run
+ */
+export const beforeSuite = async (): Promise<void> => {
+  console.log('Running beforeSuite for Generic application');
+};
+
+/**
+ * Generic application afterSuite cleanup
+ * This runs once after all tests in the run
+ */
+export const afterSuite = async (): Promise<void> => {
+  console.log('Running afterSuite for Generic application');
+};
+
+/**
+ * Generic application per-test setup
+ * This runs before every test that uses the app fixtures
+ */
+export const beforeEachTest = async ({ testInfo }: AppTestHookContext): Promise<void> => {
+  console.log(`Starting test: ${testInfo.title}`);
+};
+
+/**
+ * Generic application per-test cleanup
+ * This runs after every test that uses the app fixtures
+ */
+export const afterEachTest = async ({ testInfo }: AppTestHookContext): Promise<void> => {
+  console.log(`Finished test: ${testInfo.title} (${testInfo.status})`);
+};
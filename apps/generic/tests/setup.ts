@@ -1,41 +1,17 @@
 import { test as base } from '@playwright/test';
 import CONFIG from '../../../core-framework/config/config';
 
-/**
- * Generic application beforeSuite setup
- * This runs once before all tests in the suite
- */
-export const beforeSuite = async (): Promise<void> => {
-  console.log('Running beforeSuite for Generic application');
-  // Add application-specific setup logic here
-  // For example:
-  // - Set up test data specific to this application
-  // - Initialize application-specific resources
-};
+// Lifecycle hooks (beforeSuite, afterSuite, beforeEachTest, afterEachTest) live in apps/generic/hooks.ts
 
-/**
- * Generic application afterSuite cleanup
- * This runs once after all tests in the suite
- */
-export const afterSuite = async (): Promise<void> => {
-  console.log('Running afterSuite for Generic application');
-  // Add application-specific cleanup logic here
-};
+// Application and environment under test
+export interface GenericAppContext {
+  appName: string;
+  environment: string;
+}
 
-// You can also create application-specific fixtures
-export const test = base.extend({
-  // Example of an application-specific fixture
+// Application-specific fixtures
+export const test = base.extend<{ genericAppContext: GenericAppContext }>({
   genericAppContext: async ({}, use) => {
-    // Setup before test
-    const appContext = {
-      appName: 'generic',
-      environment: CONFIG.env,
-      // Add other app-specific context here
-    };
-    
-    // Use the fixture
-    await use(appContext);
-    
-    // Cleanup after test
+    await use({ appName: 'generic', environment: CONFIG.env });
   }
 });
@@ -0,0 +1,76 @@
+import { BrowserContext } from '@playwright/test';
+import CONFIG from '../../core-framework/config/config';
+import { DataUtils } from '../../core-framework/utils/DataUtils';
+import { CART_STORAGE_KEY, SESSION_COOKIE } from './session';
+import { SauceProducts, SauceUser, SauceUserType, SauceUsers } from './testdata/TestDataModels';
+
+// localStorage key recording which cart seed was written last
+const CART_SEED_KEY = `${CART_STORAGE_KEY}-seed`;
+
+/**
+ * Sets up a Sauce Demo browser session without going through the UI
+ *
+ * saucedemo.com has no server-side session: a browser is logged in while the
+ * `session-username` cookie names a user, and the cart lives in localStorage under
+ * `cart-contents`. This helper writes both directly, so a test can open any page
+ * logged in and with items in the cart.
+ */
+export class SauceSessionHelper {
+  // Seeds only ever grow, so the latest setCart() wins over earlier init scripts
+  private static lastSeed = 0;
+
+  /**
+   * Creates a new instance of SauceSessionHelper
+   * @param context The browser context to seed, e.g. `page.context()`
+   */
+  constructor(private readonly context: BrowserContext) {}
+
+  /**
+   * Logs a user type from users.yaml in by setting the session cookie
+   * Any user type is accepted, including ones the login form refuses such as lockedOutUser,
+   * so a test can check how pages treat them.
+   * @param userType User type, e.g. 'standardUser'
+   * @returns The user's entry from users.yaml
+   */
+  async login(userType: SauceUserType = 'standardUser'): Promise<SauceUser> {
+    const user = DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users')[userType];
+    if (!user) {
+      throw new Error(`No user type '${userType}' in users.yaml`);
+    }
+
+    await this.context.addCookies([{ name: SESSION_COOKIE, value: user.username, url: CONFIG.baseUrl }]);
+    console.log(`✅ Session set for ${user.username}`);
+    return user;
+  }
+
+  /**
+   * Replaces the cart with the given products
+   * The site holds one of each product, so repeated products appear once. The cart is
+   * written before the site's scripts run on the next page load.
+   * @param products Product slugs (`id`) or inventory item ids (`itemId`) from products.yaml
+   * @returns The inventory item ids in the cart
+   */
+  async setCart(products: (string | number)[]): Promise<number[]> {
+    const catalogue = DataUtils.loadTestData<SauceProducts>('sauce-demo', 'products').products;
+    const itemIds = products.map(product => {
+      const match = catalogue.find(entry => entry.id === product || entry.itemId === product);
+      if (!match) {
+        throw new Error(`No product '${product}' in products.yaml`);
+      }
+      return match.itemId;
+    });
+    const cart = [...new Set(itemIds)];
+
+    const seed = SauceSessionHelper.lastSeed = Math.max(Date.now(), SauceSessionHelper.lastSeed + 1);
+    await this.context.addInitScript(([origin, cartKey, seedKey, value, seed]) => {
+      // Write the cart once, so later changes made through the UI are kept
+      if (window.location.origin === origin && Number(window.localStorage.getItem(seedKey)) < seed) {
+        window.localStorage.setItem(cartKey, value);
+        window.localStorage.setItem(seedKey, String(seed));
+      }
+    }, [new URL(CONFIG.baseUrl).origin, CART_STORAGE_KEY, CART_SEED_KEY, JSON.stringify(cart), seed] as const);
+
+    console.log(`✅ Cart set to item ids ${JSON.stringify(cart)}`);
+    return cart;
+  }
+}
@@ -1,6 +1,10 @@
-import { Page } from '@playwright/test';
+import { BrowserContext, Page } from '@playwright/test';
 import { SauceApiClient } from './SauceApiClient';
 import { CartRequest, CartResponse, ApiError, Product } from './models/ApiModels';
+import { CleanupRegistry } from '../../../core-framework/utils/CleanupRegistry';
+import { SessionBridge } from '../../../core-framework/utils/SessionBridge';
+import { SauceSessionHelper } from '../SauceSessionHelper';
+import { SESSION_COOKIE } from '../session';
 
 /**
  * Helper class for using API in UI tests
@@ -9,6 +13,8 @@ import { CartRequest, CartResponse, ApiError, Product } from './models/ApiModels
 export class ApiTestHelper {
   private apiClient: SauceApiClient;
   private isInitialized: boolean = false;
+  // Product ids of the last cart set up via API, shown by navigateToCart
+  private cartProductIds: number[] = [];
 
   /**
    * Creates a new instance of ApiTestHelper
@@ -39,10 +45,12 @@ export class ApiTestHelper {
 
   /**
    * Sets up a cart with products via API
+   * navigateToCart shows the cart in the browser.
    * @param products Array of product IDs and quantities to add to cart
+   * @param cleanup Registry to register the cart's deletion with, e.g. the `cleanup` fixture
    * @returns The cart ID
    */
-  async setupCart(products: { id: number, quantity: number }[]): Promise<string> {
+  async setupCart(products: { id: number, quantity: number }[], cleanup?: CleanupRegistry): Promise<string> {
     if (!this.isInitialized) {
       throw new Error('API client not initialized. Call initialize() first.');
     }
@@ -63,29 +71,58 @@ export class ApiTestHelper {
       throw new Error(`Failed to set up cart: ${response.message}`);
     }
 
+    this.cartProductIds = response.items.map(item => item.productId);
     console.log(`✅ Cart created via API with ID: ${response.cartId}`);
+    cleanup?.register(`delete cart ${response.cartId}`, () => this.deleteCart(response.cartId));
     return response.cartId;
   }
 
   /**
-   * Navigates to the cart page with items already added via API
-   * Since the real API doesn't work, this method will add items to the cart via UI
+   * Deletes a cart via API
+   * @param cartId The ID of the cart to delete
+   */
+  async deleteCart(cartId: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error(`API client not initialized; cannot delete cart ${cartId}`);
+    }
+
+    const response = await this.apiClient.deleteCart(cartId);
+
+    // A cart that no longer exists (e.g. an order was placed from it) needs no cleanup
+    if ('statusCode' in response && response.statusCode !== 404) {
+      throw new Error(`Failed to delete cart ${cartId}: ${response.message}`);
+    }
+
+    console.log(`✅ Cart deleted via API: ${cartId}`);
+  }
+
+  /**
+   * Logs the browser in with the API session instead of the login form
+   * Copies the `session-username` cookie set by the API login into the browser context.
+   * @param context The browser context, e.g. `page.context()`
+   */
+  async shareSession(context: BrowserContext): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('API client not initialized. Call initialize() first.');
+    }
+
+    const transfer = await SessionBridge.toBrowser(this.apiClient.api, context, { cookieNames: [SESSION_COOKIE] });
+    if (transfer.cookies.length === 0) {
+      throw new Error(`The API session has no ${SESSION_COOKIE} cookie to share with the browser`);
+    }
+    console.log('✅ API session shared with the browser');
+  }
+
+  /**
+   * Navigates to the cart page with the items of the last cart set up via API
+   * The site keeps its cart in the browser rather than the API, so the cart is copied into
+   * the browser's localStorage first. Log the browser in before, e.g. with shareSession().
    * @param page The Playwright page
    */
   async navigateToCart(page: Page): Promise<void> {
-    console.log('Adding items to cart via UI since API is mocked');
-    
-    // First navigate to inventory page
-    await page.goto('/inventory.html');
-    
-    // Add Sauce Labs Backpack
-    await page.click('[data-test="add-to-cart-sauce-labs-backpack"]');
-    
-    // Add Sauce Labs Bolt T-Shirt
-    await page.click('[data-test="add-to-cart-sauce-labs-bolt-t-shirt"]');
-    
-    // Navigate to cart
-    console.log('Navigate to cart with UI-prepared items');
+    await new SauceSessionHelper(page.context()).setCart(this.cartProductIds);
+
+    console.log('Navigate to cart with API-prepared items');
     await page.goto('/cart.html');
   }
 
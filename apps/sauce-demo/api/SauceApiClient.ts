@@ -1,11 +1,13 @@
-import { request, APIRequestContext } from '@playwright/test';
-import { 
-  LoginRequest, 
-  LoginResponse, 
-  ProductsResponse, 
-  CartRequest, 
-  CartResponse, 
-  OrderRequest, 
+import { ApiResponse, ApiUtils, ApiUtilsOptions } from '../../../core-framework/utils/ApiUtils';
+import { BearerAuthProvider } from '../../../core-framework/utils/AuthProviders';
+import {
+  LoginRequest,
+  LoginResponse,
+  ProductsResponse,
+  CartRequest,
+  CartResponse,
+  DeleteCartResponse,
+  OrderRequest,
   OrderResponse,
   ApiError
 } from './models/ApiModels';
@@ -13,31 +15,30 @@ import {
 /**
  * API client for Sauce Demo application
  * Provides methods to interact with the Sauce Demo API for test data setup
+ * Requests go through ApiUtils, so they pass the app's interceptors (api/interceptors.ts)
+ * and its retry policy; error statuses are returned as ApiError values rather than thrown.
+ * After login the session token is sent as a bearer token and renewed by logging in again
+ * when the API answers 401.
  */
 export class SauceApiClient {
+  readonly api: ApiUtils;
   private baseUrl: string;
-  private context: APIRequestContext;
-  private authToken: string | null = null;
 
   /**
    * Creates a new instance of SauceApiClient
    * @param baseUrl The base URL for the API
+   * @param options ApiUtils retry policy, timeout and interceptors
    */
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, options?: ApiUtilsOptions) {
     this.baseUrl = baseUrl;
+    this.api = new ApiUtils(baseUrl, undefined, options);
   }
 
   /**
    * Initializes the API context
    */
   async init() {
-    this.context = await request.newContext({
-      baseURL: this.baseUrl,
-      extraHTTPHeaders: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json'
-      }
-    });
+    await this.api.init();
     console.log(`Initialized API client for ${this.baseUrl}`);
   }
 
@@ -50,40 +51,27 @@ export class SauceApiClient {
   async login(username: string, password: string): Promise<LoginResponse> {
     try {
       console.log(`Authenticating user: ${username}`);
-      
-      // Since the real API endpoint is not working, we'll use a mock implementation
-      console.log('Using mock authentication (API endpoint not available)');
-      
-      // Mock successful authentication for standard_user
-      if (username === 'standard_user' && password === 'secret_sauce') {
-        this.authToken = 'mock-auth-token-for-testing';
-        console.log('Authentication successful (mock)');
-        
-        // Update headers with mock auth token for subsequent requests
-        await this.context.dispose();
-        this.context = await request.newContext({
-          baseURL: this.baseUrl,
-          extraHTTPHeaders: {
-            'Accept': 'application/json',
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.authToken}`
-          }
-        });
-        
-        return {
-          success: true,
-          token: this.authToken,
-          userId: 'mock-user-id-123',
-          message: 'Authentication successful (mock)'
-        };
-      } else {
-        console.error(`Authentication failed: Invalid credentials`);
-        return {
-          success: false,
-          message: 'Authentication failed: Invalid credentials'
-        };
+
+      const loginRequest: LoginRequest = { username, password };
+      const loginResponse = await this.api.post<LoginResponse>('login', loginRequest, undefined, { auth: false });
+
+      if (!loginResponse?.success || !loginResponse.token) {
+        const message = loginResponse?.message || 'Authentication failed: no token returned';
+        console.error(message);
+        return { success: false, message };
       }
+
+      // Send the token with subsequent requests, logging in again when it expires
+      this.api.setAuthProvider(new BearerAuthProvider(loginResponse.token, () => this.renewToken(loginRequest)));
+      console.log('Authentication successful');
+      return loginResponse;
     } catch (error) {
+      const response = this.errorResponse(error);
+      if (response) {
+        const message = (response.body as Partial<LoginResponse>)?.message || `Authentication failed: HTTP ${response.status}`;
+        console.error(message);
+        return { success: false, message };
+      }
       console.error(`Login error: ${error}`);
       return {
         success: false,
@@ -98,43 +86,9 @@ export class SauceApiClient {
    */
   async getProducts(): Promise<ProductsResponse | ApiError> {
     try {
-      console.log('Fetching products from API');
-      
-      // Since the real API endpoint is not working, we'll use a mock implementation
-      console.log('Using mock product data (API endpoint not available)');
-      
-      // Return mock product data
-      return {
-        products: [
-          {
-            id: 4,
-            name: 'Sauce Labs Backpack',
-            description: 'carry.allTheThings() with the sleek, streamlined Sly Pack',
-            price: 29.99,
-            imageUrl: 'sauce-backpack-1200x1500.jpg'
-          },
-          {
-            id: 1,
-            name: 'Sauce Labs Bolt T-Shirt',
-            description: 'Get your testing superhero on with the Sauce Labs bolt T-shirt',
-            price: 15.99,
-            imageUrl: 'bolt-shirt-1200x1500.jpg'
-          },
-          {
-            id: 2,
-            name: 'Sauce Labs Bike Light',
-            description: 'A red light isn\'t the desired state in testing but it sure helps when riding your bike at night',
-            price: 9.99,
-            imageUrl: 'bike-light-1200x1500.jpg'
-          }
-        ]
-      };
+      return await this.api.get<ProductsResponse>('products');
     } catch (error) {
-      console.error(`Get products error: ${error}`);
-      return {
-        statusCode: 500,
-        message: `Get products error: ${error}`
-      };
+      return this.toApiError(error, 'Get products');
     }
   }
 
@@ -145,38 +99,35 @@ export class SauceApiClient {
    */
   async addToCart(cartRequest: CartRequest): Promise<CartResponse | ApiError> {
     try {
-      console.log(`Adding items to cart: ${JSON.stringify(cartRequest.items)}`);
-      
-      // Since the real API endpoint is not working, we'll use a mock implementation
-      console.log('Using mock cart data (API endpoint not available)');
-      
-      // Calculate total price based on product IDs
-      let totalPrice = 0;
-      const mockProducts = [
-        { id: 4, price: 29.99 },
-        { id: 1, price: 15.99 },
-        { id: 2, price: 9.99 }
-      ];
-      
-      cartRequest.items.forEach(item => {
-        const product = mockProducts.find(p => p.id === item.productId);
-        if (product) {
-          totalPrice += product.price * item.quantity;
-        }
-      });
-      
-      // Return mock cart response
-      return {
-        cartId: 'mock-cart-' + Date.now(),
-        items: cartRequest.items,
-        totalPrice: parseFloat(totalPrice.toFixed(2))
-      };
+      return await this.api.post<CartResponse>('cart', cartRequest);
     } catch (error) {
-      console.error(`Add to cart error: ${error}`);
-      return {
-        statusCode: 500,
-        message: `Add to cart error: ${error}`
-      };
+      return this.toApiError(error, 'Add to cart');
+    }
+  }
+
+  /**
+   * Gets a cart
+   * @param cartId The ID of the cart
+   * @returns The cart response
+   */
+  async getCart(cartId: string): Promise<CartResponse | ApiError> {
+    try {
+      return await this.api.get<CartResponse>(`cart/${encodeURIComponent(cartId)}`);
+    } catch (error) {
+      return this.toApiError(error, 'Get cart');
+    }
+  }
+
+  /**
+   * Deletes a cart
+   * @param cartId The ID of the cart to delete
+   * @returns The delete cart response
+   */
+  async deleteCart(cartId: string): Promise<DeleteCartResponse | ApiError> {
+    try {
+      return await this.api.delete<DeleteCartResponse>(`cart/${encodeURIComponent(cartId)}`);
+    } catch (error) {
+      return this.toApiError(error, 'Delete cart');
     }
   }
 
@@ -187,28 +138,16 @@ export class SauceApiClient {
    */
   async placeOrder(orderRequest: OrderRequest): Promise<OrderResponse | ApiError> {
     try {
-      console.log(`Placing order for cart: ${orderRequest.cartId}`);
-      
-      // Since the real API endpoint is not working, we'll use a mock implementation
-      console.log('Using mock order data (API endpoint not available)');
-      
-      // Validate customer info
-      const { firstName, lastName, postalCode } = orderRequest.customerInfo;
-      if (!firstName || !lastName || !postalCode) {
-        return {
-          success: false,
-          message: 'Invalid customer information',
-          orderId: ''
-        };
-      }
-      
-      // Return mock order response
-      return {
-        orderId: 'mock-order-' + Date.now(),
-        success: true,
-        message: 'Order placed successfully (mock)'
-      };
+      return await this.api.post<OrderResponse>('orders', orderRequest);
     } catch (error) {
+      const response = this.errorResponse(error);
+      if (response) {
+        // Rejected orders come back as an OrderResponse with success false
+        const orderResponse = response.body as Partial<OrderResponse> | undefined;
+        return orderResponse && typeof orderResponse.success === 'boolean'
+          ? orderResponse as OrderResponse
+          : this.toApiError(error, 'Place order');
+      }
       console.error(`Place order error: ${error}`);
       return {
         success: false,
@@ -222,7 +161,45 @@ export class SauceApiClient {
    * Cleans up resources
    */
   async dispose() {
-    await this.context.dispose();
+    await this.api.dispose();
     console.log('API client disposed');
   }
+
+  /**
+   * Log in again for a new session token
+   * @param loginRequest Credentials of the original login
+   */
+  private async renewToken(loginRequest: LoginRequest): Promise<string> {
+    console.log(`Session expired; logging in again as ${loginRequest.username}`);
+    const loginResponse = await this.api.post<LoginResponse>('login', loginRequest, undefined, { auth: false });
+    if (!loginResponse?.token) {
+      throw new Error(`Login as ${loginRequest.username} returned no token`);
+    }
+    return loginResponse.token;
+  }
+
+  /**
+   * Response of a request that failed with an error status
+   * @returns The response, or undefined if the request failed without one
+   */
+  private errorResponse(error: unknown): ApiResponse | undefined {
+    return (error as { response?: ApiResponse } | undefined)?.response;
+  }
+
+  /**
+   * Turn a failed request into an ApiError
+   * @param error Error thrown by ApiUtils
+   * @param operation What the request did, for requests that got no response
+   */
+  private toApiError(error: unknown, operation: string): ApiError {
+    const response = this.errorResponse(error);
+    const apiError: ApiError = response
+      ? {
+        statusCode: response.status,
+        message: (response.body as Partial<ApiError>)?.message || `${response.url} responded with HTTP ${response.status} ${response.statusText}`
+      }
+      : { statusCode: 500, message: `${operation} error: ${error}` };
+    console.error(`API error: ${apiError.statusCode} ${apiError.message}`);
+    return apiError;
+  }
 }
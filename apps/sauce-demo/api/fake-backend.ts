@@ -0,0 +1,212 @@
+import CONFIG from '../../../core-framework/config/config';
+import { FakeBackend, FakeRequest, FakeResponse } from '../../../core-framework/config/fake-backend';
+import { DataUtils } from '../../../core-framework/utils/DataUtils';
+import { SecretUtils } from '../../../core-framework/utils/SecretUtils';
+import {
+  ApiError,
+  CartItem,
+  CartRequest,
+  CartResponse,
+  DeleteCartResponse,
+  LoginRequest,
+  LoginResponse,
+  OrderRequest,
+  OrderResponse,
+  Product,
+  ProductsResponse
+} from './models/ApiModels';
+import { SESSION_COOKIE } from '../session';
+import { SauceProducts, SauceUsers } from '../testdata/TestDataModels';
+
+/**
+ * Sauce Demo fake backend
+ * Started by global setup as the Sauce Demo API (the real one is not served); state is
+ * kept in memory for the duration of the run.
+ * Like the web app, a login also sets the `session-username` cookie, and that cookie is
+ * accepted in place of the bearer token, so sessions can move between API and browser.
+ * Accounts and their passwords come from users.yaml, so the backend needs the same
+ * SAUCE_<ENV>_PASSWORD secret as the tests.
+ */
+
+// Accounts that exist but are refused at login, like on the demo site
+const LOCKED_OUT_USERNAMES = ['locked_out_user'];
+
+// OAuth2 clients allowed the client-credentials grant: client id -> name of the secret holding its client secret
+const CLIENTS: Record<string, string> = { 'sauce-test-client': 'SAUCE_CLIENT_SECRET' };
+const CLIENT_TOKEN_LIFETIME_SECONDS = 3600;
+
+interface StoredCart extends CartResponse {
+  owner: string;
+}
+
+function error(statusCode: number, message: string): FakeResponse {
+  const body: ApiError = { statusCode, message };
+  return { status: statusCode, body };
+}
+
+/**
+ * Create the Sauce Demo fake backend
+ * Routes: POST /login, POST /oauth/token, GET /products, POST /cart, GET /cart/:cartId,
+ * DELETE /cart/:cartId, POST /orders
+ */
+export function createFakeBackend(): FakeBackend {
+  // Accounts are the users in users.yaml for the run's environment; passwords are resolved on first login
+  const accounts = Object.values(DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users', CONFIG.env));
+  const isAccount = (username: string) => accounts.some(account => account.username === username);
+  // Same catalogue as the UI tests, from products.yaml
+  const catalogue: Product[] = DataUtils.loadTestData<SauceProducts>('sauce-demo', 'products', CONFIG.env).products
+    .map(({ itemId, name, description, price, image }) => ({ id: itemId, name, description, price, imageUrl: image }));
+  // Bearer token -> username (client:<id> for client-credentials tokens)
+  const sessions = new Map<string, string>();
+  // Client-credentials token -> expiry time
+  const tokenExpiry = new Map<string, number>();
+  const carts = new Map<string, StoredCart>();
+  const orders = new Map<string, OrderRequest>();
+  let nextId = 1;
+
+  // Username of the request's session, or undefined if it has no valid token or session cookie
+  const sessionUser = (request: FakeRequest): string | undefined => {
+    const match = /^Bearer (.+)$/.exec(request.headers.authorization ?? '');
+    if (match) {
+      return (tokenExpiry.get(match[1]) ?? Infinity) > Date.now() ? sessions.get(match[1]) : undefined;
+    }
+    const cookie = new RegExp(`(?:^|;\\s*)${SESSION_COOKIE}=([^;]+)`).exec(request.headers.cookie ?? '');
+    const username = cookie ? decodeURIComponent(cookie[1]) : undefined;
+    return username && isAccount(username) && !LOCKED_OUT_USERNAMES.includes(username) ? username : undefined;
+  };
+
+  const authenticated = (handler: (request: FakeRequest, username: string) => FakeResponse) =>
+    (request: FakeRequest): FakeResponse => {
+      const username = sessionUser(request);
+      return username ? handler(request, username) : error(401, 'Authentication required');
+    };
+
+  // Cart of the session user; other users' carts are reported as missing
+  const findCart = (cartId: string, username: string): StoredCart | undefined => {
+    const cart = carts.get(cartId);
+    return cart?.owner === username ? cart : undefined;
+  };
+
+  const cartResponse = ({ cartId, items, totalPrice }: StoredCart): CartResponse => ({ cartId, items, totalPrice });
+
+  return new FakeBackend()
+    .route('POST', '/login', request => {
+      const { username, password } = (request.body ?? {}) as Partial<LoginRequest>;
+      if (!username || !password) {
+        const body: LoginResponse = { success: false, message: 'Authentication failed: username and password are required' };
+        return { status: 400, body };
+      }
+      const account = accounts.find(candidate => candidate.username === username);
+      if (!account || password !== account.password) {
+        const body: LoginResponse = { success: false, message: 'Authentication failed: Invalid credentials' };
+        return { status: 401, body };
+      }
+      if (LOCKED_OUT_USERNAMES.includes(username)) {
+        const body: LoginResponse = { success: false, message: 'Authentication failed: Sorry, this user has been locked out.' };
+        return { status: 403, body };
+      }
+
+      const token = `fake-token-${nextId++}`;
+      sessions.set(token, username);
+      const body: LoginResponse = { success: true, token, userId: `user-${username}`, message: 'Authentication successful' };
+      return { status: 200, body, headers: { 'Set-Cookie': `${SESSION_COOKIE}=${encodeURIComponent(username)}; Path=/` } };
+    })
+
+    // OAuth2 client-credentials grant; errors use the OAuth2 error format
+    .route('POST', '/oauth/token', request => {
+      const { grant_type: grantType, client_id: clientId, client_secret: clientSecret } = (request.body ?? {}) as Record<string, string>;
+      if (grantType !== 'client_credentials') {
+        return { status: 400, body: { error: 'unsupported_grant_type' } };
+      }
+      const secretName = clientId ? CLIENTS[clientId] : undefined;
+      if (!secretName) {
+        return { status: 401, body: { error: 'invalid_client' } };
+      }
+      let expectedSecret: string;
+      try {
+        expectedSecret = SecretUtils.resolve(secretName);
+      } catch {
+        return {
+          status: 500,
+          body: { error: 'server_error', error_description: `The fake backend needs the secret ${secretName} for client '${clientId}'; set it in .env (see .env.example)` }
+        };
+      }
+      if (expectedSecret !== clientSecret) {
+        return { status: 401, body: { error: 'invalid_client' } };
+      }
+
+      const token = `fake-client-token-${nextId++}`;
+      sessions.set(token, `client:${clientId}`);
+      tokenExpiry.set(token, Date.now() + CLIENT_TOKEN_LIFETIME_SECONDS * 1000);
+      return { status: 200, body: { access_token: token, token_type: 'Bearer', expires_in: CLIENT_TOKEN_LIFETIME_SECONDS } };
+    })
+
+    .route('GET', '/products', authenticated(() => {
+      const body: ProductsResponse = { products: catalogue };
+      return { status: 200, body };
+    }))
+
+    .route('POST', '/cart', authenticated((request, username) => {
+      const items = (request.body as Partial<CartRequest> | undefined)?.items;
+      if (!Array.isArray(items) || items.length === 0) {
+        return error(400, 'items must be a non-empty list');
+      }
+
+      let totalPrice = 0;
+      for (const item of items as CartItem[]) {
+        const product = catalogue.find(candidate => candidate.id === item.productId);
+        if (!product) {
+          return error(400, `Unknown product ${item.productId}`);
+        }
+        if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+          return error(400, `Invalid quantity ${item.quantity} for product ${item.productId}`);
+        }
+        totalPrice += product.price * item.quantity;
+      }
+
+      const cart: StoredCart = {
+        cartId: `cart-${nextId++}`,
+        items: items.map(({ productId, quantity }) => ({ productId, quantity })),
+        totalPrice: parseFloat(totalPrice.toFixed(2)),
+        owner: username
+      };
+      carts.set(cart.cartId, cart);
+      return { status: 201, body: cartResponse(cart) };
+    }))
+
+    .route('GET', '/cart/:cartId', authenticated((request, username) => {
+      const cart = findCart(request.params.cartId, username);
+      return cart ? { status: 200, body: cartResponse(cart) } : error(404, `Cart ${request.params.cartId} not found`);
+    }))
+
+    .route('DELETE', '/cart/:cartId', authenticated((request, username) => {
+      const cart = findCart(request.params.cartId, username);
+      if (!cart) {
+        return error(404, `Cart ${request.params.cartId} not found`);
+      }
+      carts.delete(cart.cartId);
+      const body: DeleteCartResponse = { cartId: cart.cartId, deleted: true };
+      return { status: 200, body };
+    }))
+
+    .route('POST', '/orders', authenticated((request, username) => {
+      const order = (request.body ?? {}) as Partial<OrderRequest>;
+      const { firstName, lastName, postalCode } = order.customerInfo ?? {} as Partial<OrderRequest['customerInfo']>;
+      if (!firstName || !lastName || !postalCode) {
+        const body: OrderResponse = { orderId: '', success: false, message: 'Invalid customer information' };
+        return { status: 400, body };
+      }
+      const cart = findCart(order.cartId ?? '', username);
+      if (!cart) {
+        const body: OrderResponse = { orderId: '', success: false, message: `Cart ${order.cartId} not found` };
+        return { status: 404, body };
+      }
+
+      // Placing the order empties the cart
+      const orderId = `order-${nextId++}`;
+      orders.set(orderId, order as OrderRequest);
+      carts.delete(cart.cartId);
+      const body: OrderResponse = { orderId, success: true, message: 'Order placed successfully' };
+      return { status: 201, body };
+    }));
+}
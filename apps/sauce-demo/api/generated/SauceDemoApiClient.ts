@@ -0,0 +1,124 @@
+/**
+ * Sauce Demo API client
+ * Generated from apps/sauce-demo/api/openapi.yaml by scripts/generate-api-client.ts; do not edit by hand.
+ */
+
+import { ApiUtils } from '../../../../core-framework/utils/ApiUtils';
+import { AuthProvider } from '../../../../core-framework/utils/AuthProviders';
+import {
+  CartRequest,
+  CartResponse,
+  DeleteCartResponse,
+  LoginRequest,
+  LoginResponse,
+  OrderRequest,
+  OrderResponse,
+  ProductsResponse
+} from './models';
+import {
+  CartResponseSchema,
+  DeleteCartResponseSchema,
+  LoginResponseSchema,
+  OrderResponseSchema,
+  ProductsResponseSchema
+} from './schemas';
+
+/**
+ * Client for the Sauce Demo API
+ * Requests go through ApiUtils, so the production guard applies; error statuses and
+ * responses that do not match their schema throw.
+ */
+export class SauceDemoApiClient {
+  readonly api: ApiUtils;
+
+  /**
+   * Creates a new instance of SauceDemoApiClient
+   * @param api ApiUtils to send the requests with (defaults to one for CONFIG.apiBaseUrl)
+   */
+  constructor(api: ApiUtils = new ApiUtils()) {
+    this.api = api;
+  }
+
+  /**
+   * Initializes the API context
+   */
+  async init(): Promise<void> {
+    await this.api.init();
+  }
+
+  /**
+   * Sends a bearer token with subsequent requests
+   * @param token Authentication token
+   */
+  setAuthToken(token: string): void {
+    this.api.setAuthToken(token);
+  }
+
+  /**
+   * Sets the credentials sent with subsequent requests
+   * @param provider Auth provider, or undefined to send no credentials
+   */
+  setAuthProvider(provider?: AuthProvider): void {
+    this.api.setAuthProvider(provider);
+  }
+
+  /**
+   * Authenticates with username and password
+   * POST /login
+   * @param body Request body
+   */
+  async login(body: LoginRequest): Promise<LoginResponse> {
+    return await this.api.post<LoginResponse>('login', body, undefined, { schema: LoginResponseSchema, auth: false });
+  }
+
+  /**
+   * Gets all products
+   * GET /products
+   */
+  async getProducts(): Promise<ProductsResponse> {
+    return await this.api.get<ProductsResponse>('products', undefined, { schema: ProductsResponseSchema });
+  }
+
+  /**
+   * Creates a cart with the given items
+   * POST /cart
+   * @param body Request body
+   */
+  async addToCart(body: CartRequest): Promise<CartResponse> {
+    return await this.api.post<CartResponse>('cart', body, undefined, { schema: CartResponseSchema });
+  }
+
+  /**
+   * Gets a cart
+   * GET /cart/{cartId}
+   * @param cartId The ID of the cart
+   */
+  async getCart(cartId: string): Promise<CartResponse> {
+    return await this.api.get<CartResponse>(`cart/${encodeURIComponent(cartId)}`, undefined, { schema: CartResponseSchema });
+  }
+
+  /**
+   * Deletes a cart
+   * DELETE /cart/{cartId}
+   * @param cartId The ID of the cart
+   */
+  async deleteCart(cartId: string): Promise<DeleteCartResponse> {
+    return await this.api.delete<DeleteCartResponse>(`cart/${encodeURIComponent(cartId)}`, undefined, { schema: DeleteCartResponseSchema });
+  }
+
+  /**
+   * Places an order for a cart; the cart is removed
+   * POST /orders
+   * @param body Request body
+   */
+  async placeOrder(body: OrderRequest): Promise<OrderResponse> {
+    return await this.api.post<OrderResponse>('orders', body, undefined, { schema: OrderResponseSchema });
+  }
+
+  /**
+   * Cleans up resources
+   */
+  async dispose(): Promise<void> {
+    await this.api.dispose();
+  }
+}
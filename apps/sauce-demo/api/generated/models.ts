@@ -0,0 +1,72 @@
+/**
+ * Sauce Demo API models
+ * Generated from apps/sauce-demo/api/openapi.yaml by scripts/generate-api-client.ts; do not edit by hand.
+ */
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  token?: string;
+  userId?: string;
+  success: boolean;
+  message?: string;
+}
+
+export interface Product {
+  /** Inventory item id */
+  id: number;
+  name: string;
+  description: string;
+  price: number;
+  imageUrl: string;
+}
+
+export interface ProductsResponse {
+  products: Product[];
+}
+
+export interface CartItem {
+  productId: number;
+  quantity: number;
+}
+
+export interface CartRequest {
+  items: CartItem[];
+}
+
+export interface CartResponse {
+  cartId: string;
+  items: CartItem[];
+  totalPrice: number;
+}
+
+export interface DeleteCartResponse {
+  cartId: string;
+  deleted: boolean;
+}
+
+export interface CustomerInfo {
+  firstName: string;
+  lastName: string;
+  postalCode: string;
+}
+
+export interface OrderRequest {
+  cartId: string;
+  customerInfo: CustomerInfo;
+}
+
+export interface OrderResponse {
+  orderId: string;
+  success: boolean;
+  message?: string;
+}
+
+export interface ApiError {
+  statusCode: number;
+  message: string;
+  details?: string;
+}
@@ -0,0 +1,252 @@
+/**
+ * Sauce Demo API schemas
+ * Generated from apps/sauce-demo/api/openapi.yaml by scripts/generate-api-client.ts; do not edit by hand.
+ */
+
+import { JsonSchema } from '../../../../core-framework/utils/SchemaUtils';
+
+// Schemas of all models; the exported schemas refer into it
+const components: { schemas: Record<string, JsonSchema> } = {
+  "schemas": {
+    "LoginRequest": {
+      "type": "object",
+      "required": [
+        "username",
+        "password"
+      ],
+      "properties": {
+        "username": {
+          "type": "string"
+        },
+        "password": {
+          "type": "string"
+        }
+      },
+      "additionalProperties": false
+    },
+    "LoginResponse": {
+      "type": "object",
+      "required": [
+        "success"
+      ],
+      "properties": {
+        "token": {
+          "type": "string"
+        },
+        "userId": {
+          "type": "string"
+        },
+        "success": {
+          "type": "boolean"
+        },
+        "message": {
+          "type": "string"
+        }
+      },
+      "additionalProperties": false
+    },
+    "Product": {
+      "type": "object",
+      "required": [
+        "id",
+        "name",
+        "description",
+        "price",
+        "imageUrl"
+      ],
+      "properties": {
+        "id": {
+          "type": "integer",
+          "description": "Inventory item id"
+        },
+        "name": {
+          "type": "string"
+        },
+        "description": {
+          "type": "string"
+        },
+        "price": {
+          "type": "number"
+        },
+        "imageUrl": {
+          "type": "string"
+        }
+      },
+      "additionalProperties": false
+    },
+    "ProductsResponse": {
+      "type": "object",
+      "required": [
+        "products"
+      ],
+      "properties": {
+        "products": {
+          "type": "array",
+          "items": {
+            "$ref": "#/components/schemas/Product"
+          }
+        }
+      },
+      "additionalProperties": false
+    },
+    "CartItem": {
+      "type": "object",
+      "required": [
+        "productId",
+        "quantity"
+      ],
+      "properties": {
+        "productId": {
+          "type": "integer"
+        },
+        "quantity": {
+          "type": "integer",
+          "minimum": 1
+        }
+      },
+      "additionalProperties": false
+    },
+    "CartRequest": {
+      "type": "object",
+      "required": [
+        "items"
+      ],
+      "properties": {
+        "items": {
+          "type": "array",
+          "minItems": 1,
+          "items": {
+            "$ref": "#/components/schemas/CartItem"
+          }
+        }
+      },
+      "additionalProperties": false
+    },
+    "CartResponse": {
+      "type": "object",
+      "required": [
+        "cartId",
+        "items",
+        "totalPrice"
+      ],
+      "properties": {
+        "cartId": {
+          "type": "string"
+        },
+        "items": {
+          "type": "array",
+          "items": {
+            "$ref": "#/components/schemas/CartItem"
+          }
+        },
+        "totalPrice": {
+          "type": "number"
+        }
+      },
+      "additionalProperties": false
+    },
+    "DeleteCartResponse": {
+      "type": "object",
+      "required": [
+        "cartId",
+        "deleted"
+      ],
+      "properties": {
+        "cartId": {
+          "type": "string"
+        },
+        "deleted": {
+          "type": "boolean"
+        }
+      },
+      "additionalProperties": false
+    },
+    "CustomerInfo": {
+      "type": "object",
+      "required": [
+        "firstName",
+        "lastName",
+        "postalCode"
+      ],
+      "properties": {
+        "firstName": {
+          "type": "string"
+        },
+        "lastName": {
+          "type": "string"
+        },
+        "postalCode": {
+          "type": "string"
+        }
+      },
+      "additionalProperties": false
+    },
+    "OrderRequest": {
+      "type": "object",
+      "required": [
+        "cartId",
+        "customerInfo"
+      ],
+      "properties": {
+        "cartId": {
+          "type": "string"
+        },
+        "customerInfo": {
+          "$ref": "#/components/schemas/CustomerInfo"
+        }
+      },
+      "additionalProperties": false
+    },
+    "OrderResponse": {
+      "type": "object",
+      "required": [
+        "orderId",
+        "success"
+      ],
+      "properties": {
+        "orderId": {
+          "type": "string"
+        },
+        "success": {
+          "type": "boolean"
+        },
+        "message": {
+          "type": "string"
+        }
+      },
+      "additionalProperties": false
+    },
+    "ApiError": {
+      "type": "object",
+      "required": [
+        "statusCode",
+        "message"
+      ],
+      "properties": {
+        "statusCode": {
+          "type": "integer"
+        },
+        "message": {
+          "type": "string"
+        },
+        "details": {
+          "type": "string"
+        }
+      },
+      "additionalProperties": false
+    }
+  }
+};
+
+export const LoginRequestSchema: JsonSchema = { $ref: '#/components/schemas/LoginRequest', components };
+export const LoginResponseSchema: JsonSchema = { $ref: '#/components/schemas/LoginResponse', components };
+export const ProductSchema: JsonSchema = { $ref: '#/components/schemas/Product', components };
+export const ProductsResponseSchema: JsonSchema = { $ref: '#/components/schemas/ProductsResponse', components };
+export const CartItemSchema: JsonSchema = { $ref: '#/components/schemas/CartItem', components };
+export const CartRequestSchema: JsonSchema = { $ref: '#/components/schemas/CartRequest', components };
+export const CartResponseSchema: JsonSchema = { $ref: '#/components/schemas/CartResponse', components };
+export const DeleteCartResponseSchema: JsonSchema = { $ref: '#/components/schemas/DeleteCartResponse', components };
+export const CustomerInfoSchema: JsonSchema = { $ref: '#/components/schemas/CustomerInfo', components };
+export const OrderRequestSchema: JsonSchema = { $ref: '#/components/schemas/OrderRequest', components };
+export const OrderResponseSchema: JsonSchema = { $ref: '#/components/schemas/OrderResponse', components };
+export const ApiErrorSchema: JsonSchema = { $ref: '#/components/schemas/ApiError', components };
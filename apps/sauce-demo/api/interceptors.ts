@@ -0,0 +1,14 @@
+import { ApiInterceptor } from '../../../core-framework/utils/ApiUtils';
+import { ApiInterceptors } from '../../../core-framework/utils/ApiInterceptors';
+
+/**
+ * Sauce Demo API interceptors
+ * Every ApiUtils for the app, including the one inside SauceApiClient, starts with this chain.
+ */
+export function createApiInterceptors(): ApiInterceptor[] {
+  return [
+    ApiInterceptors.correlationId(),
+    ApiInterceptors.logging(),
+    ApiInterceptors.timing(undefined, 2000)
+  ];
+}
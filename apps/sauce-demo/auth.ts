@@ -0,0 +1,22 @@
+import { Page } from '@playwright/test';
+import CONFIG from '../../core-framework/config/config';
+
+/**
+ * Sauce Demo authentication used by the auth setup project and the `role` fixture
+ */
+
+// User types that cannot log in
+export const excludedRoles = ['lockedOutUser'];
+
+/**
+ * Log a user in through the login form and wait for the inventory page
+ * @param page Playwright Page
+ * @param user User entry from users.yaml
+ */
+export async function authenticate(page: Page, user: Record<string, any>): Promise<void> {
+  await page.goto(CONFIG.baseUrl);
+  await page.fill('#user-name', user.username);
+  await page.fill('#password', user.password);
+  await page.click('#login-button');
+  await page.waitForURL('**/inventory.html');
+}
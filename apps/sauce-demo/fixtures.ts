@@ -0,0 +1,30 @@
+import { createAppTest } from '../../core-framework/config/app-fixtures';
+import { SauceLoginPage } from './pages/SauceLoginPage';
+import { SauceInventoryPage } from './pages/SauceInventoryPage';
+import { SauceCartPage } from './pages/SauceCartPage';
+import { SauceCheckoutPage } from './pages/SauceCheckoutPage';
+import { DataUtils } from '../../core-framework/utils/DataUtils';
+import { SauceProducts, SauceUsers } from './testdata/TestDataModels';
+
+/**
+ * Sauce Demo test object with page object and test data fixtures
+ *
+ * Usage:
+ *   import { test, expect } from '../../fixtures';
+ *   test('...', async ({ inventoryPage, userData }) => { ... });
+ */
+export const test = createAppTest({
+  app: 'sauce-demo',
+  pages: {
+    loginPage: SauceLoginPage,
+    inventoryPage: SauceInventoryPage,
+    cartPage: SauceCartPage,
+    checkoutPage: SauceCheckoutPage
+  },
+  data: {
+    userData: DataUtils.dataFile<SauceUsers>('users'),
+    productData: DataUtils.dataFile<SauceProducts>('products')
+  }
+});
+
+export { expect } from '@playwright/test';
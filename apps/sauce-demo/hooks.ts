@@ -0,0 +1,18 @@
+/**
+ * Sauce Demo lifecycle hooks
+ * Picked up automatically by global setup/teardown and the app fixtures
+ */
+
+/**
+ * Runs once before all tests in the run
+ */
+export const beforeSuite = async (): Promise<void> => {
+  console.log('Setting up Sauce Demo application');
+};
+
+/**
+ * Runs once after all tests in the run
+ */
+export const afterSuite = async (): Promise<void> => {
+  console.log('Cleaning up Sauce Demo application');
+};
@@ -1,5 +1,6 @@
 import { Page } from '@playwright/test';
 import { BasePage } from '../../../core-framework/pages/BasePage';
+import { SecretUtils } from '../../../core-framework/utils/SecretUtils';
 
 /**
  * Page object for the Sauce Demo login page
@@ -75,7 +76,7 @@ export class SauceLoginPage extends BasePage {
       console.log('Checking for login button...');
       const isButtonVisible = await this.page.isVisible(this.loginButton, { timeout: 10000 })
         .catch(e => {
-          console.error(`Error checking login button visibility: ${e.message}`);
+          console.error(`Error checking login button visibility: ${SecretUtils.redact(e.message)}`);
           return false;
         });
       
@@ -87,8 +88,8 @@ export class SauceLoginPage extends BasePage {
       }
       
     } catch (error: any) {
-      console.error(`Navigation failed with error: ${error.message}`);
-      console.error(`Stack trace: ${error.stack}`);
+      console.error(`Navigation failed with error: ${SecretUtils.redact(error.message)}`);
+      console.error(`Stack trace: ${SecretUtils.redact(error.stack ?? '')}`);
       
       // Try one last desperate approach
       try {
@@ -100,7 +101,7 @@ export class SauceLoginPage extends BasePage {
         await this.page.waitForTimeout(5000);
         console.log(`Emergency navigation result URL: ${this.page.url()}`);
       } catch (e) {
-        console.error(`Emergency navigation also failed: ${e}`);
+        console.error(`Emergency navigation also failed: ${SecretUtils.redact(String(e))}`);
       }
       
       throw error;
@@ -113,6 +114,9 @@ export class SauceLoginPage extends BasePage {
    * @param password Password
    */
   async login(username: string, password: string): Promise<void> {
+    // Mask the password in logs and error reports even if it did not come from a secret
+    SecretUtils.register(password);
+    
     const maxRetries = 2;
     let retryCount = 0;
     let lastError: Error | null = null;
@@ -159,7 +163,7 @@ export class SauceLoginPage extends BasePage {
         
       } catch (error: any) {
         lastError = error;
-        console.error(`Login attempt ${retryCount + 1} failed: ${error.message}`);
+        console.error(`Login attempt ${retryCount + 1} failed: ${SecretUtils.redact(error.message)}`);
         retryCount++;
         
         if (retryCount < maxRetries) {
@@ -0,0 +1,10 @@
+/**
+ * Where the Sauce Demo web app keeps its client-side session
+ * Kept free of other imports, so the fake backend and the session helpers can share it.
+ */
+
+// Cookie the web app keeps the logged-in username in
+export const SESSION_COOKIE = 'session-username';
+
+// localStorage key the web app keeps the cart in, as a JSON array of inventory item ids
+export const CART_STORAGE_KEY = 'cart-contents';
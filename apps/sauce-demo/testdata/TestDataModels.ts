@@ -0,0 +1,48 @@
+/**
+ * Types of the Sauce Demo test data, matching the JSON Schemas in testdata/schemas
+ */
+
+// users.yaml
+export interface SauceUser {
+  username: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  postalCode: string;
+}
+
+export type SauceUserType = 'standardUser' | 'lockedOutUser' | 'problemUser' | 'performanceGlitchUser';
+
+export type SauceUsers = Record<SauceUserType, SauceUser>;
+
+// products.yaml
+export interface SauceProduct {
+  // Slug used in the UI's data-test attributes
+  id: string;
+  // Inventory item id used by the API
+  itemId: number;
+  name: string;
+  price: number;
+  // Image file name, returned by the API as imageUrl
+  image: string;
+  description: string;
+}
+
+export interface SauceProducts {
+  products: SauceProduct[];
+}
+
+// Customer details entered on the checkout information page
+export type CheckoutCustomer = Pick<SauceUser, 'firstName' | 'lastName' | 'postalCode'>;
+
+// login-scenarios.yaml
+export interface LoginScenario {
+  title?: string;
+  userType: SauceUserType;
+  // Password to log in with instead of the user's own
+  password?: string;
+  expected: 'success' | 'error';
+  errorText?: string;
+  tags?: string[];
+  environments?: string[];
+}
@@ -0,0 +1,19 @@
+import { Builder, addressBuilder } from '../../../core-framework/utils/DataFactory';
+import { CheckoutCustomer } from './TestDataModels';
+
+/**
+ * Builders for generated Sauce Demo test data
+ *
+ * Usage:
+ *   test('...', async ({ checkoutPage, dataFactory }) => {
+ *     const customer = checkoutCustomerBuilder.build(dataFactory);
+ *     await checkoutPage.fillCheckoutInfo(customer.firstName, customer.lastName, customer.postalCode);
+ *   });
+ */
+
+// Checkout customer whose postal code comes from a generated address in the configured locale
+export const checkoutCustomerBuilder = new Builder<CheckoutCustomer>(factory => ({
+  firstName: factory.firstName(),
+  lastName: factory.lastName(),
+  postalCode: addressBuilder.build(factory).postalCode
+}));
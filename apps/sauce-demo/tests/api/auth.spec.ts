@@ -1,15 +1,19 @@
 import { test, expect } from '@playwright/test';
 import { SauceApiClient } from '../../api/SauceApiClient';
 
-// Import test data
-import userData from '../../testdata/users.json';
+import { DataUtils } from '../../../../core-framework/utils/DataUtils';
+import CONFIG from '../../../../core-framework/config/config';
+import { SauceUsers } from '../../testdata/TestDataModels';
+
+// Load test data
+const userData = DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users', CONFIG.env);
 
 test.describe('Sauce Demo API Authentication Tests', () => {
   let apiClient: SauceApiClient;
 
   test.beforeAll(async () => {
     // Initialize API client
-    const baseUrl = process.env.API_BASE_URL || 'https://www.saucedemo.com';
+    const baseUrl = process.env.API_BASE_URL || CONFIG.apiBaseUrl;
     apiClient = new SauceApiClient(baseUrl);
     await apiClient.init();
   });
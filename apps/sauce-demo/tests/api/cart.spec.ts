@@ -2,16 +2,20 @@ import { test, expect } from '@playwright/test';
 import { SauceApiClient } from '../../api/SauceApiClient';
 import { CartRequest, ProductsResponse, ApiError } from '../../api/models/ApiModels';
 
-// Import test data
-import userData from '../../testdata/users.json';
-import productData from '../../testdata/products.json';
+import { DataUtils } from '../../../../core-framework/utils/DataUtils';
+import CONFIG from '../../../../core-framework/config/config';
+import { SauceProducts, SauceUsers } from '../../testdata/TestDataModels';
+
+// Load test data
+const userData = DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users', CONFIG.env);
+const productData = DataUtils.loadTestData<SauceProducts>('sauce-demo', 'products', CONFIG.env);
 
 test.describe('Sauce Demo API Cart Operations Tests', () => {
   let apiClient: SauceApiClient;
 
   test.beforeAll(async () => {
     // Initialize API client
-    const baseUrl = process.env.API_BASE_URL || 'https://www.saucedemo.com';
+    const baseUrl = process.env.API_BASE_URL || CONFIG.apiBaseUrl;
     apiClient = new SauceApiClient(baseUrl);
     await apiClient.init();
     
@@ -24,13 +28,13 @@ test.describe('Sauce Demo API Cart Operations Tests', () => {
     await apiClient.dispose();
   });
 
-  test('@api Add single product to cart', async () => {
+  test('@api @mutating Add single product to cart', async () => {
     // Arrange
     const product = productData.products[0];
     const cartRequest: CartRequest = {
       items: [
         {
-          productId: product.id,
+          productId: product.itemId,
           quantity: 1
         }
       ]
@@ -46,24 +50,24 @@ test.describe('Sauce Demo API Cart Operations Tests', () => {
       expect.fail(`Failed to add product to cart: ${response.message}`);
     } else {
       expect(response.items).toHaveLength(1);
-      expect(response.items[0].productId).toBe(product.id);
+      expect(response.items[0].productId).toBe(product.itemId);
       expect(response.items[0].quantity).toBe(1);
       expect(response.cartId).toBeDefined();
     }
   });
 
-  test('@api Add multiple products to cart', async () => {
+  test('@api @mutating Add multiple products to cart', async () => {
     // Arrange
     const product1 = productData.products[0];
     const product2 = productData.products[1];
     const cartRequest: CartRequest = {
       items: [
         {
-          productId: product1.id,
+          productId: product1.itemId,
           quantity: 1
         },
         {
-          productId: product2.id,
+          productId: product2.itemId,
           quantity: 2
         }
       ]
@@ -79,13 +83,13 @@ test.describe('Sauce Demo API Cart Operations Tests', () => {
       expect.fail(`Failed to add products to cart: ${response.message}`);
     } else {
       expect(response.items).toHaveLength(2);
-      expect(response.items.some(item => item.productId === product1.id)).toBeTruthy();
-      expect(response.items.some(item => item.productId === product2.id)).toBeTruthy();
+      expect(response.items.some(item => item.productId === product1.itemId)).toBeTruthy();
+      expect(response.items.some(item => item.productId === product2.itemId)).toBeTruthy();
       expect(response.cartId).toBeDefined();
     }
   });
 
-  test('@api Get products and add to cart', async () => {
+  test('@api @mutating Get products and add to cart', async () => {
     // Act - Get products
     console.log('API Get products');
     const productsResponse = await apiClient.getProducts();
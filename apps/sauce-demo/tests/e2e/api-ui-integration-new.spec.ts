@@ -1,19 +1,13 @@
-import { test, expect } from '@playwright/test';
-import { SauceLoginPage } from '../../pages/SauceLoginPage';
+import { test, expect } from '../../fixtures';
 import { SauceCartPage } from '../../pages/SauceCartPage';
 import { SauceCheckoutPage } from '../../pages/SauceCheckoutPage';
 import { ApiTestHelper } from '../../api/ApiTestHelper';
+import CONFIG from '../../../../core-framework/config/config';
+import { DataUtils } from '../../../../core-framework/utils/DataUtils';
+import { SauceUsers } from '../../testdata/TestDataModels';
 
-// Import test data
-const userData = {
-  standardUser: {
-    username: 'standard_user',
-    password: 'secret_sauce',
-    firstName: 'Test',
-    lastName: 'User',
-    postalCode: '12345'
-  }
-};
+// Load test data
+const userData = DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users', CONFIG.env);
 
 const productData = {
   products: [
@@ -27,7 +21,7 @@ test.describe('API-UI Integration Tests', () => {
 
   test.beforeAll(async () => {
     console.log('Setting up API helper for tests');
-    const baseUrl = process.env.API_BASE_URL || 'https://www.saucedemo.com';
+    const baseUrl = process.env.API_BASE_URL || CONFIG.apiBaseUrl;
     apiHelper = new ApiTestHelper(baseUrl);
     
     // Initialize API helper with user credentials
@@ -42,7 +36,7 @@ test.describe('API-UI Integration Tests', () => {
     await apiHelper.dispose();
   });
 
-  test('@api-ui Checkout with pre-populated cart', async ({ page }) => {
+  test('@api-ui @mutating Checkout with pre-populated cart', async ({ page, cleanup }) => {
     try {
       // 1. Setup cart via API
       const products = [
@@ -50,16 +44,11 @@ test.describe('API-UI Integration Tests', () => {
         { id: productData.products[1].id, quantity: 2 }
       ];
       
-      const cartId = await apiHelper.setupCart(products);
+      const cartId = await apiHelper.setupCart(products, cleanup);
       
-      // 2. Login via UI
-      console.log('Login via UI');
-      const loginPage = new SauceLoginPage(page);
-      await loginPage.goto();
-      await loginPage.login(
-        userData.standardUser.username,
-        userData.standardUser.password
-      );
+      // 2. Log the browser in with the API session instead of the login form
+      console.log('Share API session with the browser');
+      await apiHelper.shareSession(page.context());
       
       // 3. Navigate directly to cart (items already added via API)
       await apiHelper.navigateToCart(page);
@@ -103,20 +92,15 @@ test.describe('API-UI Integration Tests', () => {
     }
   });
 
-  test('@api-ui Direct checkout from product page with API authentication', async ({ page }) => {
+  test('@api-ui @mutating Direct checkout from product page with API authentication', async ({ page }) => {
     try {
       // 1. Get products via API
       const products = await apiHelper.getProducts();
       const targetProduct = products[0]; // Use first product
       
-      // 2. Login via UI
-      console.log('Login via UI');
-      const loginPage = new SauceLoginPage(page);
-      await loginPage.goto();
-      await loginPage.login(
-        userData.standardUser.username,
-        userData.standardUser.password
-      );
+      // 2. Log the browser in with the API session instead of the login form
+      console.log('Share API session with the browser');
+      await apiHelper.shareSession(page.context());
       
       // 3. Navigate to inventory page first
       console.log('Navigate to inventory page');
@@ -1,23 +1,13 @@
-import { test, expect } from '@playwright/test';
-import { SauceLoginPage } from '../../pages/SauceLoginPage';
+import { test, expect } from '../../fixtures';
 import { SauceCartPage } from '../../pages/SauceCartPage';
 import { SauceCheckoutPage } from '../../pages/SauceCheckoutPage';
 import { ApiTestHelper } from '../../api/ApiTestHelper';
+import CONFIG from '../../../../core-framework/config/config';
+import { DataUtils } from '../../../../core-framework/utils/DataUtils';
+import { SauceUsers } from '../../testdata/TestDataModels';
 
-// Import test data
-const userData = {
-  standardUser: {
-    username: 'standard_user',
-    password: 'secret_sauce',
-    firstName: 'Test',
-    lastName: 'User',
-    postalCode: '12345'
-  },
-  lockedOutUser: {
-    username: 'locked_out_user',
-    password: 'secret_sauce'
-  }
-};
+// Load test data
+const userData = DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users', CONFIG.env);
 
 const productData = {
   products: [
@@ -31,7 +21,7 @@ test.describe('API-UI Integration Tests', () => {
 
   test.beforeAll(async () => {
     console.log('Setting up API helper for tests');
-    const baseUrl = process.env.API_BASE_URL || 'https://www.saucedemo.com';
+    const baseUrl = process.env.API_BASE_URL || CONFIG.apiBaseUrl;
     apiHelper = new ApiTestHelper(baseUrl);
     
     // Initialize API helper with user credentials
@@ -46,28 +36,18 @@ test.describe('API-UI Integration Tests', () => {
     await apiHelper.dispose();
   });
 
-  test('@api-ui Checkout with pre-populated cart', async ({ page }) => {
+  test('@api-ui @mutating Checkout with pre-populated cart', async ({ page, cleanup }) => {
     // 1. Setup cart via API
     const products = [
       { id: productData.products[0].id, quantity: 1 },
       { id: productData.products[1].id, quantity: 2 }
     ];
     
-    const cartId = await apiHelper.setupCart(products);
+    const cartId = await apiHelper.setupCart(products, cleanup);
     
-    // 2. Login via UI
-    console.log('Login via UI');
-    try {
-      const loginPage = new SauceLoginPage(page);
-      await loginPage.goto();
-      await loginPage.login(
-        userData.standardUser.username,
-        userData.standardUser.password
-      );
-    } catch (error) {
-      console.error(`Error: ${error}`);
-      throw error;
-    }
+    // 2. Log the browser in with the API session instead of the login form
+    console.log('Share API session with the browser');
+    await apiHelper.shareSession(page.context());
     
     // 3. Navigate directly to cart (items already added via API)
     await apiHelper.navigateToCart(page);
@@ -117,24 +97,14 @@ test.describe('API-UI Integration Tests', () => {
     }
   });
 
-  test('@api-ui Direct checkout from product page with API authentication', async ({ page }) => {
+  test('@api-ui @mutating Direct checkout from product page with API authentication', async ({ page }) => {
     // 1. Get products via API
     const products = await apiHelper.getProducts();
     const targetProduct = products[0]; // Use first product
     
-    // 2. Login via UI
-    console.log('Login via UI');
-    try {
-      const loginPage = new SauceLoginPage(page);
-      await loginPage.goto();
-      await loginPage.login(
-        userData.standardUser.username,
-        userData.standardUser.password
-      );
-    } catch (error) {
-      console.error(`Error: ${error}`);
-      throw error;
-    }
+    // 2. Log the browser in with the API session instead of the login form
+    console.log('Share API session with the browser');
+    await apiHelper.shareSession(page.context());
     
     // 3. Navigate directly to product page
     console.log(`Navigate to product page for ${targetProduct.name}`);
@@ -1,21 +1,16 @@
 import { test, expect } from '@playwright/test';
-import { SauceLoginPage } from '../../pages/SauceLoginPage';
 import { SauceInventoryPage } from '../../pages/SauceInventoryPage';
 import { SauceCartPage } from '../../pages/SauceCartPage';
 import { SauceCheckoutPage } from '../../pages/SauceCheckoutPage';
 import { SauceApiClient } from '../../api/SauceApiClient';
+import { SauceSessionHelper } from '../../SauceSessionHelper';
 import { CartRequest } from '../../api/models/ApiModels';
+import CONFIG from '../../../../core-framework/config/config';
+import { DataUtils } from '../../../../core-framework/utils/DataUtils';
+import { SauceUsers } from '../../testdata/TestDataModels';
 
-// Test data
-const userData = {
-  standardUser: {
-    username: 'standard_user',
-    password: 'secret_sauce',
-    firstName: 'Test',
-    lastName: 'User',
-    postalCode: '12345'
-  }
-};
+// Load test data
+const userData = DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users', CONFIG.env);
 
 const productData = {
   products: [
@@ -33,7 +28,7 @@ test.describe('Sauce Demo Checkout with API Data Setup', () => {
     console.log('Setting up API client for Sauce Demo application');
     
     // Initialize API client
-    const baseUrl = process.env.API_BASE_URL || 'https://www.saucedemo.com';
+    const baseUrl = process.env.API_BASE_URL || CONFIG.apiBaseUrl;
     apiClient = new SauceApiClient(baseUrl);
     await apiClient.init();
     
@@ -55,13 +50,9 @@ test.describe('Sauce Demo Checkout with API Data Setup', () => {
   test.beforeEach(async ({ page }) => {
     console.log('Login before test');
     try {
-      // Login before each test using the page object
-      const loginPage = new SauceLoginPage(page);
-      await loginPage.goto();
-      await loginPage.login(
-        userData.standardUser.username,
-        userData.standardUser.password
-      );
+      // Start each test logged in by setting the session cookie instead of using the login form
+      await new SauceSessionHelper(page.context()).login('standardUser');
+      await page.goto('/inventory.html');
       
       // Verify successful login
       const inventoryPage = new SauceInventoryPage(page);
@@ -73,7 +64,7 @@ test.describe('Sauce Demo Checkout with API Data Setup', () => {
     }
   });
 
-  test('@api-ui Complete checkout with cart prepared via API', async ({ page }) => {
+  test('@api-ui @mutating Complete checkout with cart prepared via API', async ({ page }) => {
     try {
       // Arrange - Setup cart via API
       const product = productData.products[0];
@@ -100,14 +91,8 @@ test.describe('Sauce Demo Checkout with API Data Setup', () => {
       const cartPage = new SauceCartPage(page);
       const checkoutPage = new SauceCheckoutPage(page);
       
-      // Since API is mocked, add items via UI instead
-      console.log('Adding items to cart via UI since API is mocked');
-      await page.goto('/inventory.html');
-      
-      // Add the product to cart via UI
-      const addToCartSelector = `[data-test="add-to-cart-${product.name.toLowerCase().replace(/ /g, '-')}"]`;
-      console.log(`Clicking add to cart button with selector: ${addToCartSelector}`);
-      await page.click(addToCartSelector);
+      // The site keeps its cart in the browser, not in the API, so copy the API cart into the browser
+      await new SauceSessionHelper(page.context()).setCart(cartResponse.items.map(item => item.productId));
       
       // Navigate to cart page
       console.log('Navigate to cart page');
@@ -146,7 +131,7 @@ test.describe('Sauce Demo Checkout with API Data Setup', () => {
     }
   });
 
-  test('@api-ui Complete checkout with multiple items prepared via API', async ({ page }) => {
+  test('@api-ui @mutating Complete checkout with multiple items prepared via API', async ({ page }) => {
     try {
       // Arrange - Setup cart with multiple items via API
       const product1 = productData.products[0];
@@ -178,19 +163,8 @@ test.describe('Sauce Demo Checkout with API Data Setup', () => {
       const cartPage = new SauceCartPage(page);
       const checkoutPage = new SauceCheckoutPage(page);
       
-      // Since API is mocked, add items via UI instead
-      console.log('Adding items to cart via UI since API is mocked');
-      await page.goto('/inventory.html');
-      
-      // Add the first product to cart via UI
-      const addToCartSelector1 = `[data-test="add-to-cart-${product1.name.toLowerCase().replace(/ /g, '-')}"]`;
-      console.log(`Clicking add to cart button with selector: ${addToCartSelector1}`);
-      await page.click(addToCartSelector1);
-      
-      // Add the second product to cart via UI
-      const addToCartSelector2 = `[data-test="add-to-cart-${product2.name.toLowerCase().replace(/ /g, '-')}"]`;
-      console.log(`Clicking add to cart button with selector: ${addToCartSelector2}`);
-      await page.click(addToCartSelector2);
+      // The site keeps its cart in the browser, not in the API, so copy the API cart into the browser
+      await new SauceSessionHelper(page.context()).setCart(cartResponse.items.map(item => item.productId));
       
       // Navigate to cart page
       console.log('Navigate to cart page');
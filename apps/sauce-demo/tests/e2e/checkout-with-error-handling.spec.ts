@@ -3,6 +3,12 @@ import { SauceLoginPage } from '../../pages/SauceLoginPage';
 import { SauceInventoryPage } from '../../pages/SauceInventoryPage';
 import { SauceCartPage } from '../../pages/SauceCartPage';
 import { SauceCheckoutPage } from '../../pages/SauceCheckoutPage';
+import { DataUtils } from '../../../../core-framework/utils/DataUtils';
+import { SauceUsers } from '../../testdata/TestDataModels';
+import CONFIG from '../../../../core-framework/config/config';
+
+// Load test data
+const userData = DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users', CONFIG.env);
 
 /**
  * This test suite demonstrates a complete checkout flow with proper error handling
@@ -10,7 +16,7 @@ import { SauceCheckoutPage } from '../../pages/SauceCheckoutPage';
  * The test code remains clean and focused on the business logic
  */
 test.describe('Checkout Flow with Error Handling', () => {
-  test('Complete checkout flow with standard user', async ({ page }) => {
+  test('@mutating Complete checkout flow with standard user', async ({ page }) => {
     // Create page objects
     const loginPage = new SauceLoginPage(page);
     const inventoryPage = new SauceInventoryPage(page);
@@ -19,7 +25,7 @@ test.describe('Checkout Flow with Error Handling', () => {
     
     // Step 1: Login - any errors will be automatically handled by BasePage
     await loginPage.navigate();
-    await loginPage.login('standard_user', 'secret_sauce');
+    await loginPage.login(userData.standardUser.username, userData.standardUser.password);
     
     // Step 2: Add items to cart - any errors will be automatically handled by BasePage
     await inventoryPage.addProductToCart('Sauce Labs Backpack');
@@ -59,7 +65,7 @@ test.describe('Checkout Flow with Error Handling', () => {
     
     // Login and add item to cart
     await loginPage.navigate();
-    await loginPage.login('standard_user', 'secret_sauce');
+    await loginPage.login(userData.standardUser.username, userData.standardUser.password);
     await inventoryPage.addProductToCart('Sauce Labs Backpack');
     await inventoryPage.goToCart();
     await cartPage.checkout();
@@ -80,7 +86,7 @@ test.describe('Checkout Flow with Error Handling', () => {
     // Attempt login with locked out user
     // The framework will automatically handle and report the error
     await loginPage.navigate();
-    await loginPage.login('locked_out_user', 'secret_sauce');
+    await loginPage.login(userData.lockedOutUser.username, userData.lockedOutUser.password);
     
     // Verify error message is displayed
     await expect(loginPage.getLocator('[data-test="error"]')).toBeVisible();
@@ -94,7 +100,7 @@ test.describe('Checkout Flow with Error Handling', () => {
     
     // Login and go to cart without adding items
     await loginPage.navigate();
-    await loginPage.login('standard_user', 'secret_sauce');
+    await loginPage.login(userData.standardUser.username, userData.standardUser.password);
     await inventoryPage.goToCart();
     
     // Verify cart is empty
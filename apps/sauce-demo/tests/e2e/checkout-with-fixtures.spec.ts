@@ -1,21 +1,13 @@
-import { expect } from '@playwright/test';
-import { test } from '../../../../core-framework/config/app-fixtures';
-import { SauceLoginPage } from '../../pages/SauceLoginPage';
-import { SauceInventoryPage } from '../../pages/SauceInventoryPage';
-import { SauceCartPage } from '../../pages/SauceCartPage';
-import { SauceCheckoutPage } from '../../pages/SauceCheckoutPage';
-import { DataUtils } from '../../../../core-framework/utils/DataUtils';
-import CONFIG from '../../../../core-framework/config/config';
-
-// Load test data
-const userData = DataUtils.loadTestData('sauce-demo', 'users', CONFIG.env);
-const productData = DataUtils.loadTestData('sauce-demo', 'products', CONFIG.env);
+import { test, expect } from '../../fixtures';
 
 // Use the appBeforeSuite and appAfterSuite fixtures
 test.use({ appBeforeSuite: async () => {}, appAfterSuite: async () => {} });
 
+// Start every test authenticated as the standard user
+test.use({ role: 'standardUser' });
+
 test.describe('@e2e @checkout Checkout Flow', () => {
-  test.beforeEach(async ({ page, context }) => {
+  test.beforeEach(async ({ page, context, inventoryPage }) => {
     console.log('Starting beforeEach hook');
     
     // Configure page for better stability
@@ -39,11 +31,10 @@ test.describe('@e2e @checkout Checkout Flow', () => {
     await page.screenshot({ path: 'apps/sauce-demo/screenshots/navigation/before-navigation-fixtures.png' });
     console.log('Screenshot saved to apps/sauce-demo/screenshots/navigation/before-navigation-fixtures.png');
     
-    // Direct navigation to the site
-    console.log('Directly navigating to the site');
+    // Navigate straight to the inventory; the role fixture has already authenticated the session
+    console.log('Navigating to the inventory page as standardUser');
     try {
-      // Use a direct approach with minimal options
-      await page.goto('https://www.saucedemo.com', { timeout: 30000 });
+      await page.goto('/inventory.html', { timeout: 30000 });
       
       // Log current URL
       console.log(`Current URL after navigation: ${page.url()}`);
@@ -52,26 +43,8 @@ test.describe('@e2e @checkout Checkout Flow', () => {
       await page.screenshot({ path: 'apps/sauce-demo/screenshots/navigation/after-navigation-fixtures.png' });
       console.log('Screenshot saved to apps/sauce-demo/screenshots/navigation/after-navigation-fixtures.png');
       
-      // Check if we're on the right page
-      if (!page.url().includes('saucedemo.com')) {
-        console.error(`Navigation failed: URL is ${page.url()}`);
-        throw new Error('Navigation failed: Not on saucedemo.com');
-      }
-      
-      // Wait for login form
-      await page.waitForSelector('#login-button', { timeout: 10000 });
-      
-      // Login directly
-      await page.fill('#user-name', userData.standardUser.username);
-      await page.fill('#password', userData.standardUser.password);
-      await page.click('#login-button');
-      
-      // Wait for inventory page to load
-      await page.waitForSelector('.inventory_list', { timeout: 10000 });
-      
       // Verify successful login
       console.log('Verifying successful login');
-      const inventoryPage = new SauceInventoryPage(page);
       await expect(await inventoryPage.isLoaded()).toBeTruthy();
       
       console.log('beforeEach hook completed successfully');
@@ -82,12 +55,8 @@ test.describe('@e2e @checkout Checkout Flow', () => {
     }
   });
 
-  test('@smoke Standard user should be able to complete checkout', async ({ page }) => {
+  test('@smoke Standard user should be able to complete checkout', async ({ inventoryPage, cartPage, checkoutPage, userData, productData }) => {
     // Test implementation...
-    const inventoryPage = new SauceInventoryPage(page);
-    const cartPage = new SauceCartPage(page);
-    const checkoutPage = new SauceCheckoutPage(page);
-    
     const product = productData.products[0];
     
     await inventoryPage.addProductToCart(product.name);
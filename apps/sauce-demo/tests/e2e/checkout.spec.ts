@@ -4,12 +4,13 @@ import { SauceInventoryPage } from '../../pages/SauceInventoryPage';
 import { SauceCartPage } from '../../pages/SauceCartPage';
 import { SauceCheckoutPage } from '../../pages/SauceCheckoutPage';
 import { DataUtils } from '../../../../core-framework/utils/DataUtils';
+import { SauceProducts, SauceUsers } from '../../testdata/TestDataModels';
 import CONFIG from '../../../../core-framework/config/config';
 import { BrowserUtils } from '../../../../core-framework/utils/BrowserUtils';
 
 // Load test data
-const userData = DataUtils.loadTestData('sauce-demo', 'users', CONFIG.env);
-const productData = DataUtils.loadTestData('sauce-demo', 'products', CONFIG.env);
+const userData = DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users', CONFIG.env);
+const productData = DataUtils.loadTestData<SauceProducts>('sauce-demo', 'products', CONFIG.env);
 
 test.describe('@e2e @checkout Checkout Flow', () => {
   // This runs once before all tests in this describe block
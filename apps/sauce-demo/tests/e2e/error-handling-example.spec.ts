@@ -2,12 +2,13 @@ import { test, expect } from '@playwright/test';
 import { SauceLoginPage } from '../../pages/SauceLoginPage';
 import { SauceInventoryPage } from '../../pages/SauceInventoryPage';
 import { DataUtils } from '../../../../core-framework/utils/DataUtils';
+import { SauceUsers } from '../../testdata/TestDataModels';
 import CONFIG from '../../../../core-framework/config/config';
 import { ErrorReportingUtils } from '../../../../core-framework/utils/ErrorReportingUtils';
 import { ErrorCode } from '../../../../core-framework/utils/ErrorConstants';
 
 // Load test data
-const userData = DataUtils.loadTestData('sauce-demo', 'users', CONFIG.env);
+const userData = DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users', CONFIG.env);
 
 test.describe('@error-handling Error Handling Examples', () => {
   let errorReporting: ErrorReportingUtils;
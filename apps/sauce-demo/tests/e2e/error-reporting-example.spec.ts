@@ -2,6 +2,12 @@ import { test, expect } from '@playwright/test';
 import { SauceLoginPage } from '../../pages/SauceLoginPage';
 import { SauceInventoryPage } from '../../pages/SauceInventoryPage';
 import { ErrorCode } from '../../../../core-framework/utils/ErrorConstants';
+import { DataUtils } from '../../../../core-framework/utils/DataUtils';
+import { SauceUsers } from '../../testdata/TestDataModels';
+import CONFIG from '../../../../core-framework/config/config';
+
+// Load test data
+const userData = DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users', CONFIG.env);
 
 test.describe('Error Reporting Examples', () => {
 
@@ -26,7 +32,7 @@ test.describe('Error Reporting Examples', () => {
     
     // Login successfully
     await loginPage.navigate();
-    await loginPage.login('standard_user', 'secret_sauce');
+    await loginPage.login(userData.standardUser.username, userData.standardUser.password);
     
     // Try to interact with non-existent element - BasePage will handle the error
     await inventoryPage.click('#non-existent-element');
@@ -48,7 +54,7 @@ test.describe('Error Reporting Examples', () => {
     
     // Login successfully
     await loginPage.navigate();
-    await loginPage.login('standard_user', 'secret_sauce');
+    await loginPage.login(userData.standardUser.username, userData.standardUser.password);
     
     // Navigate to a non-existent domain - framework will handle the error
     await inventoryPage.navigate('https://non-existent-domain.example');
@@ -70,7 +76,7 @@ test.describe('Error Reporting Examples', () => {
     await loginPage.navigate();
     
     // Invalid login - will be reported by framework
-    await loginPage.login('locked_out_user', 'secret_sauce');
+    await loginPage.login(userData.lockedOutUser.username, userData.lockedOutUser.password);
     
     // Try to access inventory page (will fail due to being locked out)
     await inventoryPage.navigate();
@@ -0,0 +1,23 @@
+import { test, expect } from '../../fixtures';
+import { expandScenarios } from '../../../../core-framework/config/scenarios';
+import { LoginScenario } from '../../testdata/TestDataModels';
+
+// One test per row of testdata/login-scenarios.yaml
+const scenarios = expandScenarios<LoginScenario>({ app: 'sauce-demo', file: 'login-scenarios', title: '{userType} login: {expected}' });
+
+test.describe('@e2e Sauce Demo Login Scenarios', () => {
+  for (const { title, details, row: scenario } of scenarios) {
+    test(title, details, async ({ loginPage, inventoryPage, userData }) => {
+      const user = userData[scenario.userType];
+      await loginPage.goto();
+
+      if (scenario.expected === 'success') {
+        await loginPage.login(user.username, scenario.password ?? user.password);
+        expect(await inventoryPage.isLoaded()).toBeTruthy();
+      } else {
+        await expect(loginPage.login(user.username, scenario.password ?? user.password)).rejects.toThrow();
+        expect(await loginPage.getErrorMessage()).toContain(scenario.errorText);
+      }
+    });
+  }
+});
@@ -5,10 +5,11 @@ import { SauceCartPage } from '../../pages/SauceCartPage';
 import { SauceCheckoutPage } from '../../pages/SauceCheckoutPage';
 import { PerformanceUtils, PerformanceMetrics } from '../../../../core-framework/utils/PerformanceUtils';
 import { DataUtils } from '../../../../core-framework/utils/DataUtils';
+import { SauceUsers } from '../../testdata/TestDataModels';
 import CONFIG from '../../../../core-framework/config/config';
 
 // Load test data
-const userData = DataUtils.loadTestData('sauce-demo', 'users', CONFIG.env);
+const userData = DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users', CONFIG.env);
 
 // Define performance thresholds
 const PERFORMANCE_THRESHOLDS = {
@@ -109,7 +110,7 @@ test.describe('Sauce Demo Performance Tests', () => {
     await loginPage.goto();
     
     const glitchUserMetrics = await performanceUtils.measureAction(async () => {
-      await loginPage.login('performance_glitch_user', 'secret_sauce');
+      await loginPage.login(userData.performanceGlitchUser.username, userData.performanceGlitchUser.password);
       await inventoryPage.waitForNavigation();
     }, 'Performance Glitch User Login');
     
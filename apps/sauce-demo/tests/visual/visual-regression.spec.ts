@@ -5,10 +5,11 @@ import { SauceCartPage } from '../../pages/SauceCartPage';
 import { SauceCheckoutPage } from '../../pages/SauceCheckoutPage';
 import { VisualTestingUtils } from '../../../../core-framework/utils/VisualTestingUtils';
 import { DataUtils } from '../../../../core-framework/utils/DataUtils';
+import { SauceUsers } from '../../testdata/TestDataModels';
 import CONFIG from '../../../../core-framework/config/config';
 
 // Load test data
-const userData = DataUtils.loadTestData('sauce-demo', 'users', CONFIG.env);
+const userData = DataUtils.loadTestData<SauceUsers>('sauce-demo', 'users', CONFIG.env);
 
 test.describe('@smoke Sauce Demo Visual Regression Tests', () => {
   let visualUtils: VisualTestingUtils;
@@ -2,6 +2,7 @@ import axios from 'axios';
 import fs from 'fs';
 import path from 'path';
 import CONFIG from '../config/config';
+import { SecretUtils } from '../utils/SecretUtils';
 
 // Function to read API key from .env file
 function readApiKeyFromEnvFile(): string | undefined {
@@ -86,7 +87,8 @@ export class OpenAIHelper {
         `${this.baseUrl}/chat/completions`,
         {
           model: this.model,
-          messages: [{ role: 'user', content: prompt }],
+          // Test code, results and error logs may contain credentials from test data
+          messages: [{ role: 'user', content: SecretUtils.redact(prompt) }],
           temperature: options?.temperature || 0.7,
           max_tokens: options?.maxTokens || 1000
         },
@@ -1,12 +1,54 @@
 import path from 'path';
+import fs from 'fs';
+import yaml from 'js-yaml';
 
 // Define base directories
 export const ROOT_DIR = path.resolve(__dirname, '../../');
 export const APPS_BASE_DIR = path.join(ROOT_DIR, 'apps');
 export const REPORTS_DIR = path.join(ROOT_DIR, 'test-results');
 
+// Application names are plain folder names under apps/
+const APP_NAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/;
+
+// File names an application folder may use to declare its configuration (first match wins)
+export const APP_CONFIG_FILE_NAMES = ['app.config.yaml', 'app.config.yml', 'app.config.ts'];
+
 // Define types for application configurations
-export type Environment = 'dev' | 'staging' | 'prod' | 'qa';
+export const ENVIRONMENTS = ['dev', 'staging', 'prod', 'qa'] as const;
+export type Environment = typeof ENVIRONMENTS[number];
+
+export const BROWSERS = ['chromium', 'firefox', 'webkit'] as const;
+export type BrowserName = typeof BROWSERS[number];
+
+// Locales DataFactory can generate names, addresses and phone numbers for
+export const DATA_LOCALES = ['en-US', 'en-GB', 'de-DE', 'fr-FR'] as const;
+export type DataLocale = typeof DATA_LOCALES[number];
+
+/**
+ * Pre-flight probe of one endpoint (web or API) run from global setup
+ */
+export interface HealthCheckEndpoint {
+  enabled: boolean;
+  // Path probed relative to the environment URL
+  path: string;
+  // Exact status expected; when unset any status below 400 passes
+  expectedStatus?: number;
+  // Slowest acceptable response time
+  maxLatencyMs: number;
+}
+
+export interface HealthCheckConfig {
+  web: HealthCheckEndpoint;
+  api: HealthCheckEndpoint;
+}
+
+const DEFAULT_HEALTH_CHECK_ENDPOINT: HealthCheckEndpoint = {
+  enabled: true,
+  path: '/',
+  maxLatencyMs: 10000
+};
+
+const HEALTH_CHECK_ENDPOINT_KEYS: (keyof HealthCheckEndpoint)[] = ['enabled', 'path', 'expectedStatus', 'maxLatencyMs'];
 
 export interface AppConfig {
   description: string;
@@ -15,60 +57,378 @@ export interface AppConfig {
   validEnvironments: Environment[];
   basePath: string;
   loginPerTest: boolean;
+  excludeBrowsers: BrowserName[];
+  healthCheck: HealthCheckConfig;
+  destructiveTags: string[];
+  allowedProductionRequests: string[];
+  // Tags (without @) tests may use; undefined when the app does not restrict tags
+  allowedTags?: string[];
   isProduction: (env: Environment) => boolean;
 }
 
+/**
+ * Shape of an `apps/<name>/app.config.yaml` (or the default export of `app.config.ts`).
+ * Only the environments listed in `validEnvironments` need URLs.
+ */
+export interface AppConfigDefinition {
+  description: string;
+  environments: Partial<Record<Environment, string>>;
+  apiEnvironments: Partial<Record<Environment, string>>;
+  validEnvironments: Environment[];
+  loginPerTest?: boolean;
+  productionEnvironments?: Environment[];
+  // Browser engines this app does not support; also removes devices that run on them
+  excludeBrowsers?: BrowserName[];
+  healthCheck?: {
+    web?: Partial<HealthCheckEndpoint>;
+    api?: Partial<HealthCheckEndpoint>;
+  };
+  // Tags (without @) of tests that change data; they never run against production
+  destructiveTags?: string[];
+  // Non-GET API requests allowed against production, as 'METHOD /path' (path may use * wildcards)
+  allowedProductionRequests?: string[];
+  // Tags (without @) tests may use and --tags may select; any tag is allowed when omitted
+  allowedTags?: string[];
+  // Older URL override variables read when <APP>_<ENV>_URL / <APP>_<ENV>_API_URL are unset,
+  // with {ENV} standing for the environment, e.g. '{ENV}_BASE_URL'
+  legacyUrlVariables?: { web?: string; api?: string };
+}
+
 export type AppConfigurations = Record<string, AppConfig>;
 
-// Export application configurations
-export const APPLICATIONS: AppConfigurations = {
-  'sauce-demo': {
-    description: 'Sauce Demo E-commerce Website',
-    environments: {
-      dev: process.env.SAUCE_DEMO_DEV_URL || 'https://www.saucedemo.com',
-      staging: process.env.SAUCE_DEMO_STAGING_URL || 'https://www.saucedemo.com',
-      prod: process.env.SAUCE_DEMO_PROD_URL || 'https://www.saucedemo.com',
-      qa: process.env.SAUCE_DEMO_QA_URL || 'https://www.saucedemo.com'
-    },
-    apiEnvironments: {
-      dev: process.env.SAUCE_DEMO_DEV_API_URL || 'https://api.saucedemo.com/dev',
-      staging: process.env.SAUCE_DEMO_STAGING_API_URL || 'https://api.saucedemo.com/staging',
-      prod: process.env.SAUCE_DEMO_PROD_API_URL || 'https://api.saucedemo.com',
-      qa: process.env.SAUCE_DEMO_QA_API_URL || 'https://api.saucedemo.com/qa'
-    },
-    validEnvironments: ['dev', 'staging', 'prod', 'qa'],
-    basePath: path.join(APPS_BASE_DIR, 'sauce-demo'),
-    loginPerTest: true,
-    isProduction: (env) => env === 'prod'
-  },
-  'generic': {
-    description: 'Generic Test Application',
-    environments: {
-      dev: process.env.DEV_BASE_URL || 'http://localhost:3000',
-      staging: process.env.STAGING_BASE_URL || 'https://staging.example.com',
-      prod: process.env.PROD_BASE_URL || 'https://www.example.com',
-      qa: process.env.QA_BASE_URL || 'https://qa.example.com'
-    },
-    apiEnvironments: {
-      dev: process.env.DEV_API_BASE_URL || 'http://localhost:3001/api',
-      staging: process.env.STAGING_API_BASE_URL || 'https://api.staging.example.com',
-      prod: process.env.PROD_API_BASE_URL || 'https://api.example.com',
-      qa: process.env.QA_API_BASE_URL || 'https://api.qa.example.com'
+const DEFINITION_KEYS: (keyof AppConfigDefinition)[] = [
+  'description',
+  'environments',
+  'apiEnvironments',
+  'validEnvironments',
+  'loginPerTest',
+  'productionEnvironments',
+  'excludeBrowsers',
+  'healthCheck',
+  'destructiveTags',
+  'allowedProductionRequests',
+  'allowedTags',
+  'legacyUrlVariables'
+];
+
+/**
+ * Error raised when an application configuration file is missing or malformed
+ */
+export class AppConfigValidationError extends Error {
+  readonly appName: string;
+  readonly filePath?: string;
+  readonly issues: string[];
+
+  constructor(appName: string, issues: string[], filePath?: string) {
+    const source = filePath ? ` (${path.relative(ROOT_DIR, filePath)})` : '';
+    super(`Invalid application configuration for '${appName}'${source}:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'AppConfigValidationError';
+    this.appName = appName;
+    this.filePath = filePath;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Find the configuration file declared by an application folder
+ * @param appDir Absolute path of the application folder
+ * @returns Path of the configuration file, or undefined if the folder declares none
+ */
+function findAppConfigFile(appDir: string): string | undefined {
+  return APP_CONFIG_FILE_NAMES
+    .map(fileName => path.join(appDir, fileName))
+    .find(filePath => fs.existsSync(filePath));
+}
+
+/**
+ * Read the raw configuration object from a YAML or TypeScript file
+ * @param filePath Configuration file path
+ */
+function readAppConfigFile(filePath: string): unknown {
+  if (filePath.endsWith('.ts')) {
+    const module = require(filePath);
+    return module.default ?? module;
+  }
+  return yaml.load(fs.readFileSync(filePath, 'utf8'));
+}
+
+/**
+ * Check a list of values against the supported environment names
+ */
+function validateEnvironmentList(value: unknown, key: string, issues: string[]): Environment[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    issues.push(`'${key}' must be a non-empty list of environments`);
+    return [];
+  }
+  const unknownEnvs = value.filter(env => !ENVIRONMENTS.includes(env));
+  if (unknownEnvs.length > 0) {
+    issues.push(`'${key}' contains unknown environments: ${unknownEnvs.join(', ')} (expected one of: ${ENVIRONMENTS.join(', ')})`);
+  }
+  return value.filter(env => ENVIRONMENTS.includes(env));
+}
+
+/**
+ * Check the optional healthCheck section
+ */
+function validateHealthCheck(healthCheck: unknown, issues: string[]): void {
+  if (typeof healthCheck !== 'object' || healthCheck === null || Array.isArray(healthCheck)) {
+    issues.push(`'healthCheck' must be an object with optional 'web' and 'api' entries`);
+    return;
+  }
+
+  for (const [target, endpoint] of Object.entries(healthCheck)) {
+    const key = `healthCheck.${target}`;
+    if (target !== 'web' && target !== 'api') {
+      issues.push(`unknown key '${key}' (allowed: web, api)`);
+      continue;
+    }
+    if (typeof endpoint !== 'object' || endpoint === null || Array.isArray(endpoint)) {
+      issues.push(`'${key}' must be an object`);
+      continue;
+    }
+
+    const values = endpoint as Record<string, unknown>;
+    const unknownKeys = Object.keys(values).filter(name => !HEALTH_CHECK_ENDPOINT_KEYS.includes(name as keyof HealthCheckEndpoint));
+    if (unknownKeys.length > 0) {
+      issues.push(`'${key}' has unknown keys: ${unknownKeys.join(', ')} (allowed: ${HEALTH_CHECK_ENDPOINT_KEYS.join(', ')})`);
+    }
+    if (values.enabled !== undefined && typeof values.enabled !== 'boolean') {
+      issues.push(`'${key}.enabled' must be a boolean`);
+    }
+    if (values.path !== undefined && (typeof values.path !== 'string' || !values.path.startsWith('/'))) {
+      issues.push(`'${key}.path' must be a string starting with '/'`);
+    }
+    if (values.expectedStatus !== undefined && (!Number.isInteger(values.expectedStatus) || (values.expectedStatus as number) < 100 || (values.expectedStatus as number) > 599)) {
+      issues.push(`'${key}.expectedStatus' must be an HTTP status code`);
+    }
+    if (values.maxLatencyMs !== undefined && (!Number.isInteger(values.maxLatencyMs) || (values.maxLatencyMs as number) <= 0)) {
+      issues.push(`'${key}.maxLatencyMs' must be a positive integer`);
+    }
+  }
+}
+
+/**
+ * Validate a raw configuration object against the AppConfigDefinition contract
+ * @param appName Application name (folder name)
+ * @param raw Raw configuration object
+ * @param filePath Source file, used in error messages
+ * @returns The validated definition
+ */
+export function validateAppConfigDefinition(appName: string, raw: unknown, filePath?: string): AppConfigDefinition {
+  const issues: string[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new AppConfigValidationError(appName, ['configuration must be an object'], filePath);
+  }
+  const definition = raw as Record<string, any>;
+
+  const unknownKeys = Object.keys(definition).filter(key => !DEFINITION_KEYS.includes(key as keyof AppConfigDefinition));
+  if (unknownKeys.length > 0) {
+    issues.push(`unknown keys: ${unknownKeys.join(', ')} (allowed: ${DEFINITION_KEYS.join(', ')})`);
+  }
+
+  if (typeof definition.description !== 'string' || definition.description.trim() === '') {
+    issues.push(`'description' must be a non-empty string`);
+  }
+
+  const validEnvironments = validateEnvironmentList(definition.validEnvironments, 'validEnvironments', issues);
+
+  for (const key of ['environments', 'apiEnvironments'] as const) {
+    const urls = definition[key];
+    if (typeof urls !== 'object' || urls === null || Array.isArray(urls)) {
+      issues.push(`'${key}' must map environment names to URLs`);
+      continue;
+    }
+    for (const env of validEnvironments) {
+      if (typeof urls[env] !== 'string' || urls[env].trim() === '') {
+        issues.push(`'${key}.${env}' is missing (every environment in validEnvironments needs a URL)`);
+      }
+    }
+    const unknownEnvs = Object.keys(urls).filter(env => !ENVIRONMENTS.includes(env as Environment));
+    if (unknownEnvs.length > 0) {
+      issues.push(`'${key}' contains unknown environments: ${unknownEnvs.join(', ')}`);
+    }
+  }
+
+  if (definition.loginPerTest !== undefined && typeof definition.loginPerTest !== 'boolean') {
+    issues.push(`'loginPerTest' must be a boolean`);
+  }
+
+  if (definition.productionEnvironments !== undefined) {
+    const productionEnvironments = validateEnvironmentList(definition.productionEnvironments, 'productionEnvironments', issues);
+    const undeclared = productionEnvironments.filter(env => !validEnvironments.includes(env));
+    if (undeclared.length > 0) {
+      issues.push(`'productionEnvironments' lists environments not in validEnvironments: ${undeclared.join(', ')}`);
+    }
+  }
+
+  if (definition.excludeBrowsers !== undefined) {
+    const excluded = definition.excludeBrowsers;
+    if (!Array.isArray(excluded)) {
+      issues.push(`'excludeBrowsers' must be a list of browsers`);
+    } else {
+      const unknownBrowsers = excluded.filter(browser => !BROWSERS.includes(browser));
+      if (unknownBrowsers.length > 0) {
+        issues.push(`'excludeBrowsers' contains unknown browsers: ${unknownBrowsers.join(', ')} (expected one of: ${BROWSERS.join(', ')})`);
+      }
+    }
+  }
+
+  if (definition.healthCheck !== undefined) {
+    validateHealthCheck(definition.healthCheck, issues);
+  }
+
+  if (definition.destructiveTags !== undefined) {
+    const tags = definition.destructiveTags;
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string' || !/^[\w-]+$/.test(tag))) {
+      issues.push(`'destructiveTags' must be a list of tag names without '@' (letters, digits, '-' and '_')`);
+    }
+  }
+
+  if (definition.allowedProductionRequests !== undefined) {
+    const requests = definition.allowedProductionRequests;
+    if (!Array.isArray(requests) || requests.some(entry => typeof entry !== 'string' || !/^[A-Z]+ \/\S*$/.test(entry))) {
+      issues.push(`'allowedProductionRequests' must be a list of 'METHOD /path' entries, e.g. 'POST /login'`);
+    }
+  }
+
+  if (definition.allowedTags !== undefined) {
+    const tags = definition.allowedTags;
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string' || !/^[\w-]+$/.test(tag))) {
+      issues.push(`'allowedTags' must be a list of tag names without '@' (letters, digits, '-' and '_')`);
+    } else {
+      const destructiveTags = Array.isArray(definition.destructiveTags) ? definition.destructiveTags : ['mutating'];
+      const undeclared = destructiveTags.filter(tag => !tags.includes(tag));
+      if (undeclared.length > 0) {
+        issues.push(`'destructiveTags' lists tags not in allowedTags: ${undeclared.join(', ')}`);
+      }
+    }
+  }
+
+  if (definition.legacyUrlVariables !== undefined) {
+    const variables = definition.legacyUrlVariables;
+    if (typeof variables !== 'object' || variables === null || Array.isArray(variables) ||
+        Object.entries(variables).some(([target, name]) => !['web', 'api'].includes(target) || typeof name !== 'string' || !name.includes('{ENV}'))) {
+      issues.push(`'legacyUrlVariables' must map 'web' and/or 'api' to variable names containing {ENV}, e.g. '{ENV}_BASE_URL'`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new AppConfigValidationError(appName, issues, filePath);
+  }
+
+  return definition as AppConfigDefinition;
+}
+
+/**
+ * Name of the environment variable that overrides a URL from the config file,
+ * e.g. SAUCE_DEMO_QA_URL or SAUCE_DEMO_QA_API_URL
+ */
+export function getUrlOverrideVariable(appName: string, env: Environment, api: boolean = false): string {
+  const prefix = appName.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+  return `${prefix}_${env.toUpperCase()}_${api ? 'API_URL' : 'URL'}`;
+}
+
+/**
+ * Build the runtime AppConfig from a validated definition
+ */
+function buildAppConfig(appName: string, definition: AppConfigDefinition, basePath: string): AppConfig {
+  const environments = {} as Record<Environment, string>;
+  const apiEnvironments = {} as Record<Environment, string>;
+
+  const legacy = definition.legacyUrlVariables ?? {};
+  const legacyValue = (template: string | undefined, env: Environment) =>
+    template ? process.env[template.replace('{ENV}', env.toUpperCase())] : undefined;
+
+  for (const env of definition.validEnvironments) {
+    environments[env] = process.env[getUrlOverrideVariable(appName, env)] ||
+      legacyValue(legacy.web, env) || definition.environments[env]!;
+    apiEnvironments[env] = process.env[getUrlOverrideVariable(appName, env, true)] ||
+      legacyValue(legacy.api, env) || definition.apiEnvironments[env]!;
+  }
+
+  const productionEnvironments = definition.productionEnvironments ?? ['prod'];
+
+  return {
+    description: definition.description,
+    environments,
+    apiEnvironments,
+    validEnvironments: definition.validEnvironments,
+    basePath,
+    loginPerTest: definition.loginPerTest ?? true,
+    excludeBrowsers: definition.excludeBrowsers ?? [],
+    healthCheck: {
+      web: { ...DEFAULT_HEALTH_CHECK_ENDPOINT, ...definition.healthCheck?.web },
+      api: { ...DEFAULT_HEALTH_CHECK_ENDPOINT, ...definition.healthCheck?.api }
     },
-    validEnvironments: ['dev', 'staging', 'prod', 'qa'],
-    basePath: path.join(APPS_BASE_DIR, 'generic'),
-    loginPerTest: true,
-    isProduction: (env) => env === 'prod'
+    destructiveTags: definition.destructiveTags ?? ['mutating'],
+    allowedProductionRequests: definition.allowedProductionRequests ?? [],
+    allowedTags: definition.allowedTags,
+    isProduction: (env) => productionEnvironments.includes(env)
+  };
+}
+
+/**
+ * Load and validate the configuration declared in an application folder
+ * @param appName Application name (folder name under apps/)
+ * @throws AppConfigValidationError if the name is not a plain folder name or the configuration is invalid
+ */
+export function loadAppConfig(appName: string): AppConfig {
+  // The name becomes a path under apps/, so it must not be able to leave that folder
+  if (!APP_NAME_PATTERN.test(appName)) {
+    throw new AppConfigValidationError(appName, [
+      `application name must be a folder name under apps/ (letters, digits, '.', '_' and '-', not starting with '.')`,
+      `available applications: ${listApplications().join(', ') || 'none'}`
+    ]);
   }
-};
+
+  const basePath = path.join(APPS_BASE_DIR, appName);
+  const filePath = findAppConfigFile(basePath);
+  if (!filePath) {
+    throw new AppConfigValidationError(appName, [
+      `no ${APP_CONFIG_FILE_NAMES.join(' / ')} found in ${path.relative(ROOT_DIR, basePath)}`,
+      `available applications: ${listApplications().join(', ') || 'none'}`
+    ]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = readAppConfigFile(filePath);
+  } catch (error: any) {
+    throw new AppConfigValidationError(appName, [`could not be parsed: ${error.message}`], filePath);
+  }
+
+  return buildAppConfig(appName, validateAppConfigDefinition(appName, raw, filePath), basePath);
+}
+
+/**
+ * List the applications that declare a configuration file under apps/
+ */
+export function listApplications(): string[] {
+  if (!fs.existsSync(APPS_BASE_DIR)) {
+    return [];
+  }
+  return fs.readdirSync(APPS_BASE_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && findAppConfigFile(path.join(APPS_BASE_DIR, entry.name)))
+    .map(entry => entry.name)
+    .sort();
+}
+
+// Loaded configurations, keyed by application name
+const appConfigCache: AppConfigurations = {};
 
 // Get application configuration by name
 export function getAppConfig(appName: string): AppConfig {
-  const config = APPLICATIONS[appName];
-  if (!config) {
-    throw new Error(`Application configuration not found for: ${appName}`);
+  if (!appName) {
+    throw new AppConfigValidationError(String(appName), [
+      'no application selected (set APP or --app)',
+      `available applications: ${listApplications().join(', ') || 'none'}`
+    ]);
+  }
+  if (!appConfigCache[appName]) {
+    appConfigCache[appName] = loadAppConfig(appName);
   }
-  return config;
+  return appConfigCache[appName];
 }
 
 // Get base URL for an application in a specific environment
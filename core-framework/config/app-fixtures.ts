@@ -1,58 +1,181 @@
-import { test as base } from '@playwright/test';
+import { test as base, Page } from '@playwright/test';
+import fs from 'fs';
 import CONFIG from './config';
+import { getAppConfig } from './app-config';
+import { AppHooks, loadAppHooks, runAppHook } from './app-hooks';
+import { AuthUtils } from '../utils/AuthUtils';
+import { DataUtils, TestDataFile } from '../utils/DataUtils';
+import { DataFactory, SeededRandom } from '../utils/DataFactory';
+import { CleanupRegistry } from '../utils/CleanupRegistry';
 
-// Define the fixture type
-type AppFixture = {
+// Define the test-scoped fixture types
+type AppTestFixture = {
+  // User type from users.yaml to start the test authenticated as, e.g. test.use({ role: 'standardUser' })
+  role: string | undefined;
+  appTestHooks: void;
+  // Seeded generator for test data, e.g. checkoutCustomerBuilder.build(dataFactory)
+  dataFactory: DataFactory;
+  // Teardown actions for entities created by the test, run in reverse order after it
+  cleanup: CleanupRegistry;
+};
+
+// Define the worker-scoped fixture types
+type AppWorkerFixture = {
+  appHooks: AppHooks;
   appBeforeSuite: () => Promise<void>;
   appAfterSuite: () => Promise<void>;
+  // Teardown actions for entities shared by the worker's tests, e.g. created in beforeAll
+  workerCleanup: CleanupRegistry;
 };
 
+// The per-test hooks need a page, so they only run (and open a page) for apps that define them
+const { beforeEachTest, afterEachTest } = loadAppHooks(CONFIG.app);
+
 // Create a test fixture for application-specific setup
-export const test = base.extend<AppFixture>({
-  // This fixture runs the application-specific beforeSuite and afterSuite
-  appBeforeSuite: [async ({}, use) => {
-    // Determine which application we're running
-    const appName = CONFIG.app;
-    console.log(`Running beforeSuite for ${appName} application`);
+export const test = base.extend<AppTestFixture, AppWorkerFixture>({
+  role: [undefined, { option: true }],
+  
+  // Use the cached session for the role when the app does not log in per test
+  storageState: async ({ role, storageState }, use) => {
+    if (!role || getAppConfig(CONFIG.app).loginPerTest) {
+      await use(storageState);
+      return;
+    }
     
-    // Application-specific setup logic
-    if (appName === 'sauce-demo') {
-      // Sauce Demo specific setup
-      console.log('Setting up Sauce Demo application');
-      // Add your sauce-demo specific setup here
-    } else if (appName === 'generic') {
-      // Generic application setup
-      console.log('Setting up Generic application');
-      // Add your generic app specific setup here
+    const statePath = AuthUtils.getStorageStatePath(role);
+    if (!fs.existsSync(statePath)) {
+      throw new Error(`No cached session for role '${role}' at ${statePath}. Run the auth setup project first (it runs automatically as a project dependency).`);
+    }
+    await use(statePath);
+  },
+  
+  // Log the role in on the page when the app logs in per test
+  page: async ({ page, role }, use) => {
+    if (role && getAppConfig(CONFIG.app).loginPerTest) {
+      await AuthUtils.authenticate(page, role);
     }
+    await use(page);
+  },
+  
+  // Load and validate the app's hooks module once per worker
+  appHooks: [async ({}, use) => {
+    await use(loadAppHooks(CONFIG.app));
+  }, { scope: 'worker' }],
+  
+  // Run the app's beforeEachTest / afterEachTest hooks around every test, if it has any
+  appTestHooks: [async ({ page, appHooks }, use, testInfo) => {
+    if (appHooks.beforeEachTest) {
+      await runAppHook(CONFIG.app, 'beforeEachTest', { page, testInfo });
+    }
+    
+    await use();
     
-    // Allow the test to use this fixture
+    if (appHooks.afterEachTest) {
+      await runAppHook(CONFIG.app, 'afterEachTest', { page, testInfo });
+    }
+  }, { auto: Boolean(beforeEachTest || afterEachTest) }],
+  
+  // Seeded from the run seed, the test's title and its retry, so each test's data does not
+  // depend on which tests ran before it in the worker
+  dataFactory: async ({}, use, testInfo) => {
+    testInfo.annotations.push({ type: 'data-seed', description: String(CONFIG.seed) });
+    await use(new DataFactory({
+      seed: SeededRandom.deriveSeed(CONFIG.seed, testInfo.titlePath.join(' > '), testInfo.retry),
+      workerIndex: testInfo.workerIndex,
+      locale: CONFIG.dataLocale
+    }));
+  },
+  
+  // Failed actions are reported with ErrorReportingUtils; they only fail the test when the
+  // test itself passed, so a cleanup error never hides why a test failed
+  cleanup: async ({}, use, testInfo) => {
+    const registry = new CleanupRegistry(`test '${testInfo.titlePath.join(' > ')}'`);
+    await use(registry);
+    const failures = await registry.run();
+    if (failures.length > 0 && testInfo.status === testInfo.expectedStatus) {
+      throw registry.createError(failures);
+    }
+  },
+  
+  // Failed actions are reported but do not fail the worker, as no test owns them
+  workerCleanup: [async ({}, use, workerInfo) => {
+    const registry = new CleanupRegistry(`worker ${workerInfo.workerIndex}`);
+    await use(registry);
+    await registry.run();
+  }, { scope: 'worker' }],
+  
+  // The app's beforeSuite hook runs once per run from global setup;
+  // this fixture lets a test run it again on demand
+  appBeforeSuite: [async ({}, use) => {
     await use(async () => {
-      // This function can be called from tests if needed
-      console.log(`Running additional beforeSuite setup for ${appName}`);
+      await runAppHook(CONFIG.app, 'beforeSuite');
     });
-    
   }, { scope: 'worker' }],
   
-  // This fixture handles the afterSuite cleanup
+  // The app's afterSuite hook runs once per run from global teardown;
+  // this fixture lets a test run it again on demand
   appAfterSuite: [async ({}, use) => {
-    // Allow the test to use this fixture
     await use(async () => {
-      // This function can be called from tests if needed
-      console.log(`Running additional afterSuite cleanup for ${CONFIG.app}`);
+      await runAppHook(CONFIG.app, 'afterSuite');
     });
-    
-    // After all tests have completed
-    console.log(`Running afterSuite for ${CONFIG.app} application`);
-    
-    // Application-specific cleanup logic
-    if (CONFIG.app === 'sauce-demo') {
-      // Sauce Demo specific cleanup
-      console.log('Cleaning up Sauce Demo application');
-    } else if (CONFIG.app === 'generic') {
-      // Generic application cleanup
-      console.log('Cleaning up Generic application');
-    }
-    
   }, { scope: 'worker' }],
 });
+
+// A page object class constructed from a Playwright page
+export type PageObjectClass<T = unknown> = new (page: Page) => T;
+
+// Fixture name -> page object instance
+export type PageObjectFixtures<P extends Record<string, PageObjectClass>> = {
+  [K in keyof P]: InstanceType<P[K]>;
+};
+
+// Testdata file name, or a DataUtils.dataFile reference that also gives the data's type
+export type TestDataSource = string | TestDataFile<unknown>;
+
+// Fixture name -> test data loaded for the current environment
+export type TestDataFixtures<D extends Record<string, TestDataSource>> = {
+  [K in keyof D]: D[K] extends TestDataFile<infer T> ? T : any;
+};
+
+/**
+ * Options for registering an application's fixtures
+ */
+export interface AppFixtureOptions<P extends Record<string, PageObjectClass>, D extends Record<string, TestDataSource>> {
+  // Application whose testdata folder the data fixtures are loaded from
+  app: string;
+  // Fixture name -> page object class, e.g. { loginPage: SauceLoginPage }
+  pages: P;
+  // Fixture name -> testdata file, e.g. { userData: 'users' } or { userData: DataUtils.dataFile<SauceUsers>('users') }
+  data?: D;
+}
+
+/**
+ * Create an application-specific test object with typed page object and test data fixtures
+ *
+ * Page objects are created per test from the test's `page`; test data is loaded once per
+ * worker with DataUtils.loadTestData for CONFIG.env. The result extends the shared `test`
+ * above, so role and suite fixtures remain available.
+ * @param options Page objects and data files to register
+ * @returns Extended Playwright test object
+ */
+export function createAppTest<
+  P extends Record<string, PageObjectClass>,
+  D extends Record<string, TestDataSource> = {}
+>(options: AppFixtureOptions<P, D>) {
+  const fixtures: Record<string, any> = {};
+
+  for (const [name, PageObject] of Object.entries(options.pages)) {
+    fixtures[name] = async ({ page }: { page: Page }, use: (pageObject: unknown) => Promise<void>) => {
+      await use(new PageObject(page));
+    };
+  }
+
+  for (const [name, source] of Object.entries(options.data ?? {})) {
+    const fileName = typeof source === 'string' ? source : source.fileName;
+    fixtures[name] = [async ({}, use: (data: any) => Promise<void>) => {
+      await use(DataUtils.loadTestData(options.app, fileName, CONFIG.env));
+    }, { scope: 'worker' }];
+  }
+
+  return test.extend<PageObjectFixtures<P>, TestDataFixtures<D>>(fixtures);
+}
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import { Page, TestInfo } from '@playwright/test';
+import { getAppConfig } from './app-config';
+import { ErrorCode } from '../utils/ErrorConstants';
+import { ErrorReportingUtils } from '../utils/ErrorReportingUtils';
+
+/**
+ * Context passed to the per-test hooks
+ */
+export interface AppTestHookContext {
+  page: Page;
+  testInfo: TestInfo;
+}
+
+/**
+ * Contract for `apps/<app>/hooks.ts`; every hook is optional
+ *
+ * - beforeSuite / afterSuite run once per test run, from global setup and global teardown
+ * - beforeEachTest / afterEachTest run around every test that uses the app fixtures
+ */
+export interface AppHooks {
+  beforeSuite?: () => Promise<void>;
+  afterSuite?: () => Promise<void>;
+  beforeEachTest?: (context: AppTestHookContext) => Promise<void>;
+  afterEachTest?: (context: AppTestHookContext) => Promise<void>;
+}
+
+export type AppHookName = keyof AppHooks;
+
+export const APP_HOOK_NAMES: AppHookName[] = ['beforeSuite', 'afterSuite', 'beforeEachTest', 'afterEachTest'];
+
+// File name of the hooks module inside an application folder
+export const APP_HOOKS_FILE_NAME = 'hooks.ts';
+
+// Loaded hooks, keyed by application name
+const appHooksCache: Record<string, AppHooks> = {};
+
+/**
+ * Whether a module export can be used as the hook K
+ * Only checks that it is a function; its parameters are the module's responsibility.
+ * @param value Exported value
+ */
+function isHookFunction<K extends AppHookName>(value: unknown): value is NonNullable<AppHooks[K]> {
+  return typeof value === 'function';
+}
+
+/**
+ * Load and validate the hooks module of an application
+ * Applications without a hooks module get no hooks.
+ * @param appName Application name
+ */
+export function loadAppHooks(appName: string): AppHooks {
+  if (appHooksCache[appName]) {
+    return appHooksCache[appName];
+  }
+
+  const modulePath = path.join(getAppConfig(appName).basePath, APP_HOOKS_FILE_NAME);
+  if (!fs.existsSync(modulePath)) {
+    return appHooksCache[appName] = {};
+  }
+
+  let hooksModule: Record<string, unknown>;
+  try {
+    hooksModule = require(modulePath);
+  } catch (error: any) {
+    throw ErrorReportingUtils.createError(
+      ErrorCode.ERROR_CONFIG_INVALID,
+      `could not load hooks for '${appName}' from ${modulePath}: ${error.message}`
+    );
+  }
+
+  const hooks: AppHooks = {};
+  const loadHook = <K extends AppHookName>(name: K) => {
+    const hook = hooksModule[name];
+    if (hook === undefined) {
+      return;
+    }
+    if (!isHookFunction<K>(hook)) {
+      throw ErrorReportingUtils.createError(
+        ErrorCode.ERROR_CONFIG_INVALID,
+        `hooks for '${appName}' export '${name}' as ${typeof hook}, expected a function`
+      );
+    }
+    hooks[name] = hook;
+  };
+  APP_HOOK_NAMES.forEach(loadHook);
+
+  return appHooksCache[appName] = hooks;
+}
+
+/**
+ * Run one of an application's hooks, if defined
+ * Failures are rethrown as ERROR_CONFIG_INVALID errors naming the app and hook.
+ * @param appName Application name
+ * @param name Hook to run
+ * @param args Arguments for the hook
+ */
+export async function runAppHook<K extends AppHookName>(
+  appName: string,
+  name: K,
+  ...args: Parameters<NonNullable<AppHooks[K]>>
+): Promise<void> {
+  const hook = loadAppHooks(appName)[name] as ((...hookArgs: unknown[]) => Promise<void>) | undefined;
+  if (!hook) {
+    return;
+  }
+
+  try {
+    await hook(...args);
+  } catch (error: any) {
+    throw ErrorReportingUtils.createError(
+      ErrorCode.ERROR_CONFIG_INVALID,
+      `${name} hook for '${appName}' failed: ${error?.message ?? error}`
+    );
+  }
+}
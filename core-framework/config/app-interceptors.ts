@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import { getAppConfig } from './app-config';
+import { ErrorCode } from '../utils/ErrorConstants';
+import { ErrorReportingUtils } from '../utils/ErrorReportingUtils';
+import { ApiInterceptor } from '../utils/ApiUtils';
+
+/**
+ * Per-application API interceptors
+ *
+ * An application can provide `apps/<app>/api/interceptors.ts` exporting
+ * `createApiInterceptors()`, which returns the interceptor chain every ApiUtils for the
+ * app starts with (see ApiInterceptors.ts for the built-in ones).
+ */
+
+// Module inside an application folder that defines its API interceptors
+export const APP_INTERCEPTORS_MODULE = path.join('api', 'interceptors.ts');
+
+// Loaded interceptor chains, keyed by application name
+const appInterceptorsCache: Record<string, ApiInterceptor[]> = {};
+
+/**
+ * Load the API interceptors of an application
+ * Applications without an interceptors module get an empty chain.
+ * @param appName Application name
+ * @throws ERROR_CONFIG_INVALID if the module cannot be loaded or does not return a list of functions
+ */
+export function loadAppInterceptors(appName: string): ApiInterceptor[] {
+  if (appInterceptorsCache[appName]) {
+    return appInterceptorsCache[appName];
+  }
+
+  const modulePath = path.join(getAppConfig(appName).basePath, APP_INTERCEPTORS_MODULE);
+  if (!fs.existsSync(modulePath)) {
+    return appInterceptorsCache[appName] = [];
+  }
+
+  let interceptorsModule: Record<string, unknown>;
+  try {
+    interceptorsModule = require(modulePath);
+  } catch (error: any) {
+    throw ErrorReportingUtils.createError(
+      ErrorCode.ERROR_CONFIG_INVALID,
+      `could not load API interceptors for '${appName}' from ${modulePath}: ${error.message}`
+    );
+  }
+  if (typeof interceptorsModule.createApiInterceptors !== 'function') {
+    throw ErrorReportingUtils.createError(
+      ErrorCode.ERROR_CONFIG_INVALID,
+      `${modulePath} must export a createApiInterceptors() function`
+    );
+  }
+
+  const interceptors: unknown = interceptorsModule.createApiInterceptors();
+  if (!Array.isArray(interceptors) || interceptors.some(interceptor => typeof interceptor !== 'function')) {
+    throw ErrorReportingUtils.createError(
+      ErrorCode.ERROR_CONFIG_INVALID,
+      `createApiInterceptors() in ${modulePath} must return a list of interceptor functions`
+    );
+  }
+
+  return appInterceptorsCache[appName] = interceptors;
+}
@@ -0,0 +1,13 @@
+import { test as setup } from '@playwright/test';
+import { AuthUtils } from '../utils/AuthUtils';
+
+/**
+ * Auth setup project
+ * Logs in once each role the run's tests use and saves its storageState,
+ * so tests using `test.use({ role })` start already authenticated.
+ */
+for (const role of AuthUtils.getSetupRoles()) {
+  setup(`authenticate ${role}`, async ({ page }) => {
+    await AuthUtils.saveStorageState(page, role);
+  });
+}
@@ -0,0 +1,187 @@
+import { BROWSERS, DATA_LOCALES, ENVIRONMENTS } from './app-config';
+
+/**
+ * Schema for TestConfig
+ *
+ * Every user-settable field of TestConfig is declared here once, together with the
+ * environment variable and CLI flags that set it. The layered resolver in config.ts
+ * uses this table for parsing, type coercion and validation of every layer.
+ */
+
+export type ConfigFieldType = 'string' | 'boolean' | 'integer' | 'enum' | 'list';
+
+export interface ConfigField {
+  // Dotted path into TestConfig, e.g. 'errorReporting.logToFile'
+  path: string;
+  type: ConfigFieldType;
+  // Environment variable (also read from .env)
+  envVar?: string;
+  // CLI flags, without leading dashes
+  cliFlags?: string[];
+  // Allowed values for 'enum' fields (and for each item of 'list' fields)
+  values?: readonly string[];
+  // Lower bound for 'integer' fields
+  min?: number;
+  description: string;
+}
+
+// Where a resolved value came from, lowest precedence first
+export type ConfigSource = 'default' | `profile:${string}` | '.env' | 'env' | 'cli' | 'derived';
+
+export const CONFIG_SCHEMA: ConfigField[] = [
+  { path: 'app', type: 'string', envVar: 'APP', cliFlags: ['app', 'a'], description: 'Application to test (folder under apps/)' },
+  { path: 'env', type: 'enum', values: ENVIRONMENTS, envVar: 'ENV', cliFlags: ['env', 'e'], description: 'Environment to test against' },
+  { path: 'headless', type: 'boolean', envVar: 'HEADLESS', cliFlags: ['headless'], description: 'Run browsers headless' },
+  // Not DEBUG: that variable holds Playwright's and other tools' log namespaces, e.g. DEBUG=pw:api
+  { path: 'debug', type: 'boolean', envVar: 'TEST_DEBUG', cliFlags: ['debug'], description: 'Debug mode (single worker, no retries)' },
+  { path: 'workers', type: 'integer', min: 1, envVar: 'WORKERS', cliFlags: ['workers'], description: 'Number of parallel workers' },
+  { path: 'retries', type: 'integer', min: 0, envVar: 'RETRIES', cliFlags: ['retries'], description: 'Retries for failed tests' },
+  { path: 'timeout', type: 'integer', min: 0, envVar: 'TIMEOUT', cliFlags: ['timeout'], description: 'Test timeout in milliseconds' },
+  { path: 'slowMo', type: 'integer', min: 0, envVar: 'SLOW_MO', cliFlags: ['slowMo'], description: 'Delay between browser operations in milliseconds' },
+  { path: 'viewport.width', type: 'integer', min: 1, envVar: 'VIEWPORT_WIDTH', cliFlags: ['viewportWidth'], description: 'Viewport width in pixels' },
+  { path: 'viewport.height', type: 'integer', min: 1, envVar: 'VIEWPORT_HEIGHT', cliFlags: ['viewportHeight'], description: 'Viewport height in pixels' },
+  { path: 'recordVideo', type: 'boolean', envVar: 'RECORD_VIDEO', cliFlags: ['recordVideo'], description: 'Record video on first retry' },
+  { path: 'traceMode', type: 'enum', values: ['on', 'off', 'retain-on-failure'], envVar: 'TRACE_MODE', cliFlags: ['traceMode'], description: 'Playwright trace mode' },
+  { path: 'screenshotMode', type: 'enum', values: ['on', 'off', 'only-on-failure'], envVar: 'SCREENSHOT_MODE', cliFlags: ['screenshotMode'], description: 'Playwright screenshot mode' },
+  { path: 'aiAssisted', type: 'boolean', envVar: 'AI_ASSISTED', cliFlags: ['aiAssisted'], description: 'Enable AI-assisted features' },
+  { path: 'browsers', type: 'list', values: BROWSERS, envVar: 'BROWSERS', cliFlags: ['browsers'], description: 'Desktop browsers to run (one project each)' },
+  { path: 'devices', type: 'list', envVar: 'DEVICES', cliFlags: ['devices'], description: 'Emulated devices to run, by Playwright device name or alias' },
+  { path: 'healthCheck', type: 'boolean', envVar: 'HEALTH_CHECK', cliFlags: ['healthCheck'], description: 'Probe the app and API before running tests' },
+  { path: 'fakeBackend', type: 'boolean', envVar: 'FAKE_BACKEND', cliFlags: ['fakeBackend'], description: "Serve the app's API from its local fake backend, when it has one" },
+  { path: 'apiRetries', type: 'integer', min: 0, envVar: 'API_RETRIES', cliFlags: ['apiRetries'], description: 'Retries of failed idempotent API requests (ApiUtils)' },
+  { path: 'apiTimeout', type: 'integer', min: 0, envVar: 'API_TIMEOUT', cliFlags: ['apiTimeout'], description: 'Timeout of each API request attempt in milliseconds (ApiUtils)' },
+  // Not read from --shard: Playwright's own --shard flag would split each shard again by test
+  // count; `npm test -- --shard=2/5` sets SHARD instead (scripts/run-tests.ts)
+  { path: 'shard', type: 'string', envVar: 'SHARD', description: "Duration-balanced shard to run, e.g. '2/5'" },
+  { path: 'seed', type: 'integer', min: 0, envVar: 'SEED', cliFlags: ['seed'], description: 'Seed for generated test data (random per run when unset)' },
+  { path: 'dataLocale', type: 'enum', values: DATA_LOCALES, envVar: 'DATA_LOCALE', cliFlags: ['dataLocale'], description: 'Locale of generated names, addresses and phone numbers' },
+  { path: 'tags', type: 'string', envVar: 'TAGS', cliFlags: ['tags'], description: "Tag expression to filter tests by, e.g. '(smoke or checkout) and not flaky'" },
+  { path: 'errorReporting.enabled', type: 'boolean', envVar: 'ERROR_REPORTING', cliFlags: ['errorReporting'], description: 'Enable error reporting' },
+  { path: 'errorReporting.captureScreenshots', type: 'boolean', envVar: 'ERROR_SCREENSHOTS', cliFlags: ['errorScreenshots'], description: 'Capture screenshots for reported errors' },
+  { path: 'errorReporting.logToConsole', type: 'boolean', envVar: 'ERROR_LOG_CONSOLE', cliFlags: ['errorLogConsole'], description: 'Log reported errors to the console' },
+  { path: 'errorReporting.logToFile', type: 'boolean', envVar: 'ERROR_LOG_FILE', cliFlags: ['errorLogFile'], description: 'Write reported errors to JSON files' },
+  { path: 'errorReporting.maxErrorAge', type: 'integer', min: 0, envVar: 'ERROR_MAX_AGE', cliFlags: ['errorMaxAge'], description: 'Days to keep error logs' }
+];
+
+/**
+ * Error raised when one or more configuration values fail schema validation
+ */
+export class ConfigValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid test configuration:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Get a field definition by its dotted path
+ * @param fieldPath Dotted path into TestConfig
+ */
+export function getConfigField(fieldPath: string): ConfigField | undefined {
+  return CONFIG_SCHEMA.find(field => field.path === fieldPath);
+}
+
+/**
+ * Coerce a raw value (string from env/CLI, or native YAML value) to the field's type
+ * @param field Field definition
+ * @param raw Raw value
+ * @returns The typed value, or an error message describing why the value is invalid
+ */
+export function coerceConfigValue(field: ConfigField, raw: unknown): { value?: unknown; error?: string } {
+  switch (field.type) {
+    case 'string': {
+      if (typeof raw !== 'string' || raw.trim() === '') {
+        return { error: `expected a non-empty string, got ${JSON.stringify(raw)}` };
+      }
+      return { value: raw.trim() };
+    }
+
+    case 'boolean': {
+      if (typeof raw === 'boolean') {
+        return { value: raw };
+      }
+      const normalized = String(raw).trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(normalized)) return { value: true };
+      if (['false', '0', 'no'].includes(normalized)) return { value: false };
+      return { error: `expected true or false, got ${JSON.stringify(raw)}` };
+    }
+
+    case 'integer': {
+      const text = String(raw).trim();
+      if (!/^-?\d+$/.test(text)) {
+        return { error: `expected an integer, got ${JSON.stringify(raw)}` };
+      }
+      const value = Number(text);
+      if (field.min !== undefined && value < field.min) {
+        return { error: `must be at least ${field.min}, got ${value}` };
+      }
+      return { value };
+    }
+
+    case 'enum': {
+      const text = String(raw).trim();
+      if (!field.values?.includes(text)) {
+        return { error: `expected one of ${field.values?.join(', ')}, got ${JSON.stringify(raw)}` };
+      }
+      return { value: text };
+    }
+
+    case 'list': {
+      const items = (Array.isArray(raw) ? raw.map(String) : String(raw).split(','))
+        .map(item => item.trim())
+        .filter(item => item.length > 0);
+      const invalid = field.values ? items.filter(item => !field.values!.includes(item)) : [];
+      if (invalid.length > 0) {
+        return { error: `unknown values ${invalid.join(', ')} (expected any of ${field.values!.join(', ')})` };
+      }
+      return { value: items };
+    }
+  }
+}
+
+/**
+ * Flatten a nested config object (defaults or profile file) into dotted schema paths
+ * @param values Nested values
+ * @param unknownKeys Collects keys that do not correspond to a schema field
+ * @param prefix Path prefix for recursion
+ */
+export function flattenConfigValues(
+  values: Record<string, any>,
+  unknownKeys: string[] = [],
+  prefix: string = ''
+): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    const fieldPath = prefix ? `${prefix}.${key}` : key;
+
+    if (getConfigField(fieldPath)) {
+      flat[fieldPath] = value;
+    } else if (
+      typeof value === 'object' && value !== null && !Array.isArray(value) &&
+      CONFIG_SCHEMA.some(field => field.path.startsWith(`${fieldPath}.`))
+    ) {
+      Object.assign(flat, flattenConfigValues(value, unknownKeys, fieldPath));
+    } else {
+      unknownKeys.push(fieldPath);
+    }
+  }
+
+  return flat;
+}
+
+/**
+ * Set a value on a nested object by dotted path
+ */
+export function setConfigValue(target: Record<string, any>, fieldPath: string, value: unknown): void {
+  const keys = fieldPath.split('.');
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    current[key] = current[key] ?? {};
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+}
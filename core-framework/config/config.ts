@@ -1,7 +1,17 @@
 import minimist from 'minimist';
 import path from 'path';
 import fs from 'fs';
-import { Environment, getAppConfig, getBaseUrl, getApiBaseUrl, getTestResultsDir } from './app-config';
+import yaml from 'js-yaml';
+import { BrowserName, DataLocale, Environment, ROOT_DIR, getAppConfig, getBaseUrl, getApiBaseUrl, getTestResultsDir } from './app-config';
+import {
+  CONFIG_SCHEMA,
+  ConfigSource,
+  ConfigValidationError,
+  coerceConfigValue,
+  flattenConfigValues,
+  getConfigField,
+  setConfigValue
+} from './config-schema';
 
 // Define the configuration interface
 export interface TestConfig {
@@ -24,7 +34,17 @@ export interface TestConfig {
   traceMode: 'on' | 'off' | 'retain-on-failure';
   screenshotMode: 'on' | 'off' | 'only-on-failure';
   aiAssisted: boolean;
-  tags?: string[]; // Tags to filter tests by
+  browsers: BrowserName[]; // Desktop browser projects to run
+  devices: string[]; // Emulated device projects to run
+  healthCheck: boolean; // Probe the app and API from global setup before running tests
+  fakeBackend: boolean; // Start apps/<app>/api/fake-backend.ts from global setup and use it as the API
+  apiRetries: number; // Retries of failed idempotent ApiUtils requests
+  apiTimeout: number; // Timeout of each ApiUtils request attempt in milliseconds
+  profile?: string; // Name of the config/profiles entry that was applied
+  tags?: string; // Tag expression to filter tests by
+  shard?: string; // Duration-balanced shard to run, e.g. '2/5'
+  seed: number; // Seed for DataFactory; chosen at random when unset and shared with the workers
+  dataLocale: DataLocale; // Locale of generated test data
   errorReporting?: {
     enabled: boolean;
     captureScreenshots: boolean;
@@ -52,6 +72,13 @@ const DEFAULT_CONFIG: Partial<TestConfig> = {
   traceMode: 'retain-on-failure',
   screenshotMode: 'only-on-failure',
   aiAssisted: false,
+  browsers: ['chromium'],
+  devices: [],
+  healthCheck: true,
+  fakeBackend: true,
+  apiRetries: 2,
+  apiTimeout: 30000,
+  dataLocale: 'en-US',
   errorReporting: {
     enabled: true,
     captureScreenshots: true,
@@ -61,91 +88,239 @@ const DEFAULT_CONFIG: Partial<TestConfig> = {
   }
 };
 
-// Parse command line arguments and environment variables
-export function parseCommandLineArgs(): Partial<TestConfig> {
-  const args = minimist(process.argv.slice(2));
-  
-  // Parse tags from command line or environment variable
-  let tags: string[] | undefined;
-  if (args.tags) {
-    tags = args.tags.split(',').map((tag: string) => tag.trim());
-  } else if (process.env.TAGS) {
-    tags = process.env.TAGS.split(',').map((tag: string) => tag.trim());
+// Directory holding named configuration profiles (config/profiles/<name>.yaml)
+export const PROFILES_DIR = path.join(ROOT_DIR, 'config', 'profiles');
+
+// Optional dotenv file, read before real environment variables
+export const DOTENV_PATH = path.join(ROOT_DIR, '.env');
+
+/**
+ * Fully resolved configuration together with the layer each field came from
+ */
+export interface ResolvedConfig {
+  config: TestConfig;
+  sources: Record<string, ConfigSource>;
+  profile?: string;
+}
+
+/**
+ * Parse a dotenv file into key/value pairs
+ * @param filePath Path to the .env file
+ * @returns Parsed variables (empty if the file does not exist)
+ */
+export function parseDotEnv(filePath: string = DOTENV_PATH): Record<string, string> {
+  const variables: Record<string, string> = {};
+  if (!fs.existsSync(filePath)) {
+    return variables;
   }
-  
-  return {
-    // Check command line args first, then environment variables
-    app: args.app || args.a || process.env.APP,
-    env: args.env || args.e || process.env.ENV,
-    headless: args.headless !== undefined ? args.headless === 'true' : 
-              process.env.HEADLESS !== undefined ? process.env.HEADLESS === 'true' : undefined,
-    debug: args.debug !== undefined ? args.debug === 'true' : 
-           process.env.DEBUG !== undefined ? process.env.DEBUG === 'true' : undefined,
-    workers: args.workers !== undefined ? parseInt(args.workers) : 
-             process.env.WORKERS !== undefined ? parseInt(process.env.WORKERS) : undefined,
-    retries: args.retries !== undefined ? parseInt(args.retries) : 
-             process.env.RETRIES !== undefined ? parseInt(process.env.RETRIES) : undefined,
-    timeout: args.timeout !== undefined ? parseInt(args.timeout) : 
-             process.env.TIMEOUT !== undefined ? parseInt(process.env.TIMEOUT) : undefined,
-    slowMo: args.slowMo !== undefined ? parseInt(args.slowMo) : 
-            process.env.SLOW_MO !== undefined ? parseInt(process.env.SLOW_MO) : undefined,
-    recordVideo: args.recordVideo !== undefined ? args.recordVideo === 'true' : 
-                process.env.RECORD_VIDEO !== undefined ? process.env.RECORD_VIDEO === 'true' : undefined,
-    traceMode: args.traceMode || process.env.TRACE_MODE,
-    screenshotMode: args.screenshotMode || process.env.SCREENSHOT_MODE,
-    aiAssisted: args.aiAssisted !== undefined ? args.aiAssisted === 'true' : 
-                process.env.AI_ASSISTED !== undefined ? process.env.AI_ASSISTED === 'true' : undefined,
-    tags: tags,
-    errorReporting: {
-      enabled: args.errorReporting !== undefined ? args.errorReporting === 'true' : 
-               process.env.ERROR_REPORTING !== undefined ? process.env.ERROR_REPORTING === 'true' : DEFAULT_CONFIG.errorReporting?.enabled ?? true,
-      captureScreenshots: args.errorScreenshots !== undefined ? args.errorScreenshots === 'true' : 
-                         process.env.ERROR_SCREENSHOTS !== undefined ? process.env.ERROR_SCREENSHOTS === 'true' : DEFAULT_CONFIG.errorReporting?.captureScreenshots ?? true,
-      logToConsole: args.errorLogConsole !== undefined ? args.errorLogConsole === 'true' : 
-                   process.env.ERROR_LOG_CONSOLE !== undefined ? process.env.ERROR_LOG_CONSOLE === 'true' : DEFAULT_CONFIG.errorReporting?.logToConsole ?? true,
-      logToFile: args.errorLogFile !== undefined ? args.errorLogFile === 'true' : 
-                process.env.ERROR_LOG_FILE !== undefined ? process.env.ERROR_LOG_FILE === 'true' : DEFAULT_CONFIG.errorReporting?.logToFile ?? true,
-      maxErrorAge: args.errorMaxAge !== undefined ? parseInt(args.errorMaxAge) : 
-                  process.env.ERROR_MAX_AGE !== undefined ? parseInt(process.env.ERROR_MAX_AGE) : DEFAULT_CONFIG.errorReporting?.maxErrorAge ?? 30
+
+  for (const line of fs.readFileSync(filePath, 'utf8').split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)?\s*$/);
+    if (!match) {
+      continue;
+    }
+    let value = (match[2] ?? '').trim();
+    if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+      value = value.slice(1, -1);
+    } else {
+      value = value.replace(/\s+#.*$/, '');
     }
+    variables[match[1]] = value;
+  }
+
+  return variables;
+}
+
+/**
+ * Load a named profile from config/profiles
+ * @param name Profile name (file name without extension)
+ * @returns Nested profile values
+ */
+export function loadProfile(name: string): Record<string, any> {
+  const filePath = ['yaml', 'yml']
+    .map(ext => path.join(PROFILES_DIR, `${name}.${ext}`))
+    .find(candidate => fs.existsSync(candidate));
+
+  if (!filePath) {
+    const available = fs.existsSync(PROFILES_DIR)
+      ? fs.readdirSync(PROFILES_DIR).filter(file => /\.ya?ml$/.test(file)).map(file => file.replace(/\.ya?ml$/, ''))
+      : [];
+    throw new ConfigValidationError([`profile '${name}' not found in ${path.relative(ROOT_DIR, PROFILES_DIR)} (available: ${available.join(', ') || 'none'})`]);
+  }
+
+  const profile = yaml.load(fs.readFileSync(filePath, 'utf8'));
+  if (profile === undefined || profile === null) {
+    return {};
+  }
+  if (typeof profile !== 'object' || Array.isArray(profile)) {
+    throw new ConfigValidationError([`profile '${name}' must contain a mapping of configuration fields`]);
+  }
+  return profile as Record<string, any>;
+}
+
+/**
+ * Resolve the test configuration from all layers, lowest precedence first:
+ * defaults -> config/profiles/<name>.yaml -> .env -> environment variables -> CLI.
+ * Every value is validated against CONFIG_SCHEMA; all problems are reported together.
+ * @param argv Command line arguments (defaults to process.argv)
+ * @param env Environment variables (defaults to process.env)
+ */
+export function resolveConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): ResolvedConfig {
+  const args = minimist(argv);
+  const dotEnv = parseDotEnv();
+  const values: Record<string, unknown> = {};
+  const sources: Record<string, ConfigSource> = {};
+  const issues: string[] = [];
+
+  const apply = (fieldPath: string, raw: unknown, source: ConfigSource, origin: string) => {
+    const field = getConfigField(fieldPath)!;
+    const { value, error } = coerceConfigValue(field, raw);
+    if (error) {
+      issues.push(`${fieldPath} (from ${origin}): ${error}`);
+      return;
+    }
+    values[fieldPath] = value;
+    sources[fieldPath] = source;
   };
+
+  // 1. Defaults
+  for (const [fieldPath, value] of Object.entries(flattenConfigValues(DEFAULT_CONFIG))) {
+    apply(fieldPath, value, 'default', 'defaults');
+  }
+
+  // 2. Profile
+  const profile = args.profile || env.PROFILE || dotEnv.PROFILE;
+  if (profile) {
+    const unknownKeys: string[] = [];
+    const profileValues = flattenConfigValues(loadProfile(profile), unknownKeys);
+    unknownKeys.forEach(key => issues.push(`${key} (from profile '${profile}'): unknown configuration field`));
+    for (const [fieldPath, value] of Object.entries(profileValues)) {
+      apply(fieldPath, value, `profile:${profile}`, `profile '${profile}'`);
+    }
+  }
+
+  // 3-5. .env, environment variables, CLI flags
+  for (const field of CONFIG_SCHEMA) {
+    if (field.envVar && env[field.envVar] === undefined && dotEnv[field.envVar] !== undefined) {
+      apply(field.path, dotEnv[field.envVar], '.env', `.env ${field.envVar}`);
+    }
+    if (field.envVar && env[field.envVar] !== undefined) {
+      apply(field.path, env[field.envVar], 'env', `env ${field.envVar}`);
+    }
+    const flag = field.cliFlags?.find(name => args[name] !== undefined);
+    if (flag) {
+      const raw = args[flag];
+      apply(field.path, Array.isArray(raw) && field.type !== 'list' ? raw[raw.length - 1] : raw, 'cli', `--${flag}`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+
+  // Make .env variables visible to the rest of the framework (and to workers)
+  for (const [key, value] of Object.entries(dotEnv)) {
+    if (env[key] === undefined) {
+      env[key] = value;
+    }
+  }
+
+  const config = {} as TestConfig;
+  for (const [fieldPath, value] of Object.entries(values)) {
+    setConfigValue(config, fieldPath, value);
+  }
+  config.profile = profile;
+
+  return { config, sources, profile };
+}
+
+/**
+ * Format a resolved configuration as a table of field, value and source layer
+ * @param resolved Resolved configuration
+ */
+export function formatConfigReport(resolved: ResolvedConfig): string {
+  const entries: { field: string; source: string }[] = [
+    ...CONFIG_SCHEMA.map(field => ({ field: field.path, source: resolved.sources[field.path] ?? 'unset' })),
+    ...['baseUrl', 'apiBaseUrl', 'testResultsDir'].map(field => ({ field, source: 'derived' }))
+  ];
+
+  const rows = entries.map(({ field, source }) => {
+    const value = field.split('.').reduce<any>((current, key) => current?.[key], resolved.config);
+    return { field, value: value === undefined ? '-' : JSON.stringify(value), source };
+  });
+
+  const fieldWidth = Math.max(...rows.map(row => row.field.length));
+  const valueWidth = Math.max(...rows.map(row => row.value.length));
+
+  return [
+    `Resolved test configuration (profile: ${resolved.profile || 'none'})`,
+    ...rows.map(row => `  ${row.field.padEnd(fieldWidth)}  ${row.value.padEnd(valueWidth)}  ${row.source}`)
+  ].join('\n');
+}
+
+/**
+ * Whether PRINT_CONFIG=true was requested
+ * `npm test -- --print-config` sets it through scripts/run-tests.ts; outside a test run use
+ * `npm run config:print`.
+ */
+export function isPrintConfigRequested(): boolean {
+  return process.env.PRINT_CONFIG === 'true';
+}
+
+// Seed picked at random by this process, so later resolutions still report it as derived
+let randomSeed: string | undefined;
+
+/**
+ * Resolve the configuration and fill in the values derived from the application config
+ */
+export function loadResolvedConfig(): ResolvedConfig {
+  const resolved = resolveConfig();
+  const config = resolved.config;
+  
+  // Validate application (throws AppConfigValidationError with the full list of issues)
+  const appConfig = getAppConfig(config.app);
+  
+  // Ensure environment is valid
+  if (!appConfig.validEnvironments.includes(config.env)) {
+    throw new Error(
+      `Invalid environment '${config.env}' for application '${config.app}' ` +
+      `(valid environments: ${appConfig.validEnvironments.join(', ')})`
+    );
+  }
+  
+  // Set derived values
+  config.baseUrl = getBaseUrl(config.app, config.env);
+  config.apiBaseUrl = getApiBaseUrl(config.app, config.env);
+  config.testResultsDir = getTestResultsDir(config.app);
+  
+  // Pick the run seed once; workers inherit it through SEED so every process generates the same data
+  if (config.seed === undefined) {
+    config.seed = Math.floor(Math.random() * 2 ** 31);
+    resolved.sources.seed = 'derived';
+    randomSeed = String(config.seed);
+    process.env.SEED = randomSeed;
+  } else if (resolved.sources.seed === 'env' && process.env.SEED === randomSeed) {
+    resolved.sources.seed = 'derived';
+  }
+  
+  // Ensure test results directory exists
+  if (!fs.existsSync(config.testResultsDir)) {
+    fs.mkdirSync(config.testResultsDir, { recursive: true });
+  }
+  
+  return resolved;
 }
 
 // Load and merge configuration
 export function loadConfig(): TestConfig {
-  const cmdLineArgs = parseCommandLineArgs();
+  const resolved = loadResolvedConfig();
   
-  // Merge with defaults
-  const config = {
-    ...DEFAULT_CONFIG,
-    ...cmdLineArgs
-  } as TestConfig;
-  
-  // Validate application
-  try {
-    const appConfig = getAppConfig(config.app);
-    
-    // Ensure environment is valid
-    if (!appConfig.validEnvironments.includes(config.env)) {
-      throw new Error(`Invalid environment '${config.env}' for application '${config.app}'`);
-    }
-    
-    // Set derived values
-    config.baseUrl = getBaseUrl(config.app, config.env);
-    config.apiBaseUrl = getApiBaseUrl(config.app, config.env);
-    config.testResultsDir = getTestResultsDir(config.app);
-    
-    // Ensure test results directory exists
-    if (!fs.existsSync(config.testResultsDir)) {
-      fs.mkdirSync(config.testResultsDir, { recursive: true });
-    }
-    
-  } catch (error: any) {
-    console.error(`Configuration error: ${error.message}`);
-    process.exit(1);
+  // Print the resolved configuration once, from the main process only
+  if (isPrintConfigRequested() && process.env.TEST_WORKER_INDEX === undefined) {
+    console.log(formatConfigReport(resolved));
   }
   
-  return config;
+  return resolved.config;
 }
 
 // Get the current test configuration
@@ -0,0 +1,242 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { TestConfig } from './config';
+import { getAppConfig, getUrlOverrideVariable } from './app-config';
+import { ErrorCode } from '../utils/ErrorConstants';
+import { ErrorReportingUtils } from '../utils/ErrorReportingUtils';
+
+/**
+ * Local HTTP stand-in for an application's API
+ *
+ * An application whose API is not reachable from test environments can provide
+ * `apps/<app>/api/fake-backend.ts` exporting `createFakeBackend()`. Global setup starts the
+ * backend on a free local port and points the app's API URL at it (through the
+ * `<APP>_<ENV>_API_URL` override, which the workers inherit), so API clients make real
+ * HTTP requests without network access. Set FAKE_BACKEND=false to use the configured API URL.
+ */
+
+// Module inside an application folder that defines its fake backend
+export const FAKE_BACKEND_MODULE = path.join('api', 'fake-backend.ts');
+
+/**
+ * Request as seen by a route handler
+ */
+export interface FakeRequest {
+  method: string;
+  path: string;
+  // Values of the route's :name segments
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  // Parsed JSON (or form-encoded) body; undefined when the request has none
+  body: any;
+}
+
+/**
+ * Response returned by a route handler; the body is sent as JSON
+ */
+export interface FakeResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type FakeRouteHandler = (request: FakeRequest) => FakeResponse | Promise<FakeResponse>;
+
+interface FakeRoute {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: FakeRouteHandler;
+}
+
+/**
+ * Minimal JSON HTTP server with method and path routing
+ *
+ * Request bodies are parsed as JSON, or as form parameters when sent form-encoded.
+ * Unmatched routes get 404, malformed JSON bodies 400 and handler exceptions 500, each
+ * with a `{ statusCode, message }` body.
+ */
+export class FakeBackend {
+  private routes: FakeRoute[] = [];
+  private server?: http.Server;
+
+  /**
+   * Add a route
+   * @param method HTTP method, e.g. 'POST'
+   * @param routePath Path with optional :name segments, e.g. '/cart/:cartId'
+   * @param handler Function producing the response
+   */
+  route(method: string, routePath: string, handler: FakeRouteHandler): this {
+    const paramNames: string[] = [];
+    const source = routePath.replace(/\/+$/, '').split('/').map(segment => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }).join('/');
+    this.routes.push({ method: method.toUpperCase(), pattern: new RegExp(`^${source}/?$`), paramNames, handler });
+    return this;
+  }
+
+  /**
+   * Start listening on the loopback interface
+   * @param port Port to listen on; a free port is picked when 0
+   * @returns Base URL of the server, e.g. http://127.0.0.1:41234
+   */
+  async start(port: number = 0): Promise<string> {
+    const server = http.createServer((request, response) => {
+      this.handle(request, response).catch((error: any) => {
+        // Failed while sending the response: answer 500 if nothing was sent yet, and never leave the client waiting
+        if (!response.headersSent) {
+          response.writeHead(500, { 'Content-Type': 'application/json' });
+          response.end(JSON.stringify({ statusCode: 500, message: `Fake backend error: ${error?.message ?? error}` }));
+        } else if (!response.writableEnded) {
+          response.end();
+        }
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    // Never keep the test runner alive just for the fake backend
+    server.unref();
+    this.server = server;
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    let result: FakeResponse;
+    try {
+      result = await this.dispatch(request);
+    } catch (error: any) {
+      result = { status: 500, body: { statusCode: 500, message: `Fake backend error: ${error?.message ?? error}` } };
+    }
+
+    response.writeHead(result.status, { 'Content-Type': 'application/json', ...result.headers });
+    response.end(result.body === undefined ? '' : JSON.stringify(result.body));
+  }
+
+  private async dispatch(request: http.IncomingMessage): Promise<FakeResponse> {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const method = (request.method ?? 'GET').toUpperCase();
+    for (const route of this.routes) {
+      const match = route.method === method ? route.pattern.exec(url.pathname) : null;
+      if (!match) {
+        continue;
+      }
+
+      const text = await readBody(request);
+      let body: unknown;
+      try {
+        const form = (request.headers['content-type'] ?? '').includes('application/x-www-form-urlencoded');
+        body = !text ? undefined : form ? Object.fromEntries(new URLSearchParams(text)) : JSON.parse(text);
+      } catch (error: any) {
+        return { status: 400, body: { statusCode: 400, message: `Request body is not valid JSON: ${error.message}` } };
+      }
+
+      const params: Record<string, string> = {};
+      route.paramNames.forEach((name, index) => {
+        params[name] = decodeURIComponent(match[index + 1]);
+      });
+      return route.handler({ method, path: url.pathname, params, query: url.searchParams, headers: request.headers, body });
+    }
+    return { status: 404, body: { statusCode: 404, message: `No route for ${method} ${url.pathname}` } };
+  }
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+// Backend started by global setup, stopped by global teardown
+let runningBackend: FakeBackend | undefined;
+
+// Environment variable holding the URL of the running fake backend, inherited by the workers
+export const FAKE_BACKEND_URL_VARIABLE = 'FAKE_BACKEND_URL';
+
+/**
+ * Whether a URL points at the fake backend started for this run
+ * @param url Absolute request URL
+ */
+export function isFakeBackendUrl(url: string): boolean {
+  const backendUrl = process.env[FAKE_BACKEND_URL_VARIABLE];
+  if (!backendUrl) {
+    return false;
+  }
+  try {
+    return new URL(url).origin === new URL(backendUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start the application's fake backend, if it has one, and point its API URL at it
+ * Sets the `<APP>_<ENV>_API_URL` override and FAKE_BACKEND_URL for the workers and updates
+ * config.apiBaseUrl.
+ * @param config Resolved test configuration
+ * @returns Base URL of the fake backend, or undefined when the app has none
+ * @throws ERROR_CONFIG_INVALID if the module cannot be loaded or does not export createFakeBackend
+ */
+export async function startFakeBackend(config: TestConfig): Promise<string | undefined> {
+  const modulePath = path.join(getAppConfig(config.app).basePath, FAKE_BACKEND_MODULE);
+  if (!fs.existsSync(modulePath)) {
+    return undefined;
+  }
+
+  let backendModule: Record<string, unknown>;
+  try {
+    backendModule = require(modulePath);
+  } catch (error: any) {
+    throw ErrorReportingUtils.createError(
+      ErrorCode.ERROR_CONFIG_INVALID,
+      `could not load the fake backend for '${config.app}' from ${modulePath}: ${error.message}`
+    );
+  }
+  if (typeof backendModule.createFakeBackend !== 'function') {
+    throw ErrorReportingUtils.createError(
+      ErrorCode.ERROR_CONFIG_INVALID,
+      `${modulePath} must export a createFakeBackend() function`
+    );
+  }
+
+  await stopFakeBackend();
+  const backend = backendModule.createFakeBackend() as FakeBackend;
+  const url = await backend.start();
+  runningBackend = backend;
+  process.env[getUrlOverrideVariable(config.app, config.env, true)] = url;
+  process.env[FAKE_BACKEND_URL_VARIABLE] = url;
+  config.apiBaseUrl = url;
+  return url;
+}
+
+/**
+ * Stop the fake backend started by startFakeBackend
+ */
+export async function stopFakeBackend(): Promise<void> {
+  const backend = runningBackend;
+  runningBackend = undefined;
+  delete process.env[FAKE_BACKEND_URL_VARIABLE];
+  await backend?.stop();
+}
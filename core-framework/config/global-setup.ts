@@ -1,5 +1,10 @@
 import { FullConfig } from '@playwright/test';
 import CONFIG from './config';
+import { getAppConfig } from './app-config';
+import { runAppHook } from './app-hooks';
+import { runHealthChecks } from './health-check';
+import { startFakeBackend } from './fake-backend';
+import { planShardsForConfig, writeShardManifest } from './sharding';
 
 /**
  * Global setup that runs before all tests
@@ -7,12 +12,30 @@ import CONFIG from './config';
  */
 async function globalSetup(config: FullConfig): Promise<void> {
   console.log(`Starting tests for application: ${CONFIG.app} in environment: ${CONFIG.env}`);
+  
+  // Serve the API locally when the app has a fake backend; this changes CONFIG.apiBaseUrl
+  if (CONFIG.fakeBackend && await startFakeBackend(CONFIG)) {
+    console.log('API served by the local fake backend (FAKE_BACKEND=false to use the real API)');
+  }
+  
   console.log(`Base URL: ${CONFIG.baseUrl}`);
   console.log(`API Base URL: ${CONFIG.apiBaseUrl}`);
   console.log(`Test results will be saved to: ${CONFIG.testResultsDir}`);
+  console.log(`Test data seed: ${CONFIG.seed} (rerun with SEED=${CONFIG.seed} to reproduce generated data)`);
+  
+  // Abort early if the environment is down instead of letting every test time out
+  if (CONFIG.healthCheck) {
+    await runHealthChecks(CONFIG, getAppConfig(CONFIG.app));
+  }
+  
+  // Record which files this shard runs, so merged reports can detect missing shards or files
+  if (CONFIG.shard) {
+    const manifestPath = writeShardManifest(CONFIG, planShardsForConfig(CONFIG));
+    console.log(`Shard manifest written to: ${manifestPath}`);
+  }
   
-  // Add any global setup logic here
-  // For example, setting up global authentication tokens, test data, etc.
+  // Run the application's beforeSuite hook (apps/<app>/hooks.ts)
+  await runAppHook(CONFIG.app, 'beforeSuite');
 }
 
 export default globalSetup;
@@ -1,5 +1,7 @@
 import { FullConfig } from '@playwright/test';
 import CONFIG from './config';
+import { runAppHook } from './app-hooks';
+import { stopFakeBackend } from './fake-backend';
 
 /**
  * Global teardown that runs after all tests
@@ -8,8 +10,10 @@ import CONFIG from './config';
 async function globalTeardown(config: FullConfig): Promise<void> {
   console.log(`Completed tests for application: ${CONFIG.app} in environment: ${CONFIG.env}`);
   
-  // Add any global teardown logic here
-  // For example, cleaning up test data, sending notifications, etc.
+  // Run the application's afterSuite hook (apps/<app>/hooks.ts)
+  await runAppHook(CONFIG.app, 'afterSuite');
+  
+  await stopFakeBackend();
 }
 
 export default globalTeardown;
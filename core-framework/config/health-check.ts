@@ -0,0 +1,100 @@
+import { AppConfig, HealthCheckEndpoint } from './app-config';
+import { TestConfig } from './config';
+import { BrowserUtils, UrlProbeResult } from '../utils/BrowserUtils';
+import { ErrorCode } from '../utils/ErrorConstants';
+import { ErrorReportingUtils } from '../utils/ErrorReportingUtils';
+
+/**
+ * Outcome of one pre-flight probe
+ */
+export interface HealthCheckResult extends UrlProbeResult {
+  target: 'web' | 'api';
+  expected: string;
+  passed: boolean;
+  problem?: string;
+}
+
+/**
+ * Probe one endpoint and compare status and latency with its limits
+ * @param target Which endpoint is probed
+ * @param baseUrl Environment URL the path is resolved against
+ * @param endpoint Health check settings from the app config
+ */
+async function checkEndpoint(target: 'web' | 'api', baseUrl: string, endpoint: HealthCheckEndpoint): Promise<HealthCheckResult> {
+  const url = new URL(endpoint.path.replace(/^\//, ''), baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`).toString();
+  const probe = await BrowserUtils.probeUrl(url, {
+    expectedStatus: endpoint.expectedStatus,
+    // Give the request a little longer than the latency budget so slow responses are reported as slow, not as errors
+    timeout: endpoint.maxLatencyMs * 2
+  });
+
+  const expected = `${endpoint.expectedStatus ?? '< 400'} within ${endpoint.maxLatencyMs}ms`;
+  let problem: string | undefined;
+  if (probe.error) {
+    problem = probe.error;
+  } else if (!probe.accessible) {
+    problem = `unexpected status ${probe.status}`;
+  } else if (probe.latencyMs > endpoint.maxLatencyMs) {
+    problem = `too slow (${probe.latencyMs}ms)`;
+  }
+
+  return { ...probe, target, expected, passed: !problem, problem };
+}
+
+/**
+ * Format health check results as a report table
+ * @param results Probe results
+ */
+export function formatHealthCheckReport(results: HealthCheckResult[]): string {
+  return [
+    'Environment health check:',
+    ...results.map(result => {
+      const status = result.passed ? 'OK  ' : 'FAIL';
+      const outcome = result.status !== undefined ? `${result.status} in ${result.latencyMs}ms` : `no response after ${result.latencyMs}ms`;
+      return `  [${status}] ${result.target.padEnd(3)} ${result.url} - ${outcome} (expected ${result.expected})` +
+        (result.problem ? `: ${result.problem}` : '');
+    })
+  ].join('\n');
+}
+
+/**
+ * Probe the web and API URLs of the current environment before any test runs
+ *
+ * Both endpoints are probed (unless disabled in the app config's `healthCheck`) and
+ * reported together. If any probe fails, the run is aborted with a single error:
+ * ERROR_PAGE_NOT_LOADED when the web URL is down, otherwise ERROR_NETWORK_REQUEST_FAILED.
+ * @param config Resolved test configuration
+ * @param appConfig Configuration of the application under test
+ * @returns Results of the probes that ran
+ */
+export async function runHealthChecks(config: TestConfig, appConfig: AppConfig): Promise<HealthCheckResult[]> {
+  const checks: Promise<HealthCheckResult>[] = [];
+  if (appConfig.healthCheck.web.enabled) {
+    checks.push(checkEndpoint('web', config.baseUrl, appConfig.healthCheck.web));
+  }
+  if (appConfig.healthCheck.api.enabled) {
+    checks.push(checkEndpoint('api', config.apiBaseUrl, appConfig.healthCheck.api));
+  }
+
+  const results = await Promise.all(checks);
+  if (results.length === 0) {
+    return results;
+  }
+
+  const report = formatHealthCheckReport(results);
+  const failures = results.filter(result => !result.passed);
+  if (failures.length === 0) {
+    console.log(report);
+    return results;
+  }
+
+  const errorCode = failures.some(result => result.target === 'web')
+    ? ErrorCode.ERROR_PAGE_NOT_LOADED
+    : ErrorCode.ERROR_NETWORK_REQUEST_FAILED;
+
+  throw ErrorReportingUtils.createError(
+    errorCode,
+    `${config.app} (${config.env}) is not ready, aborting the run before any test starts.\n${report}\n` +
+    `Disable with HEALTH_CHECK=false, or adjust 'healthCheck' in apps/${config.app}/app.config.yaml.`
+  );
+}
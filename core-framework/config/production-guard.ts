@@ -0,0 +1,177 @@
+import { test } from '@playwright/test';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import CONFIG, { TestConfig } from './config';
+import { AppConfig, ROOT_DIR, getAppConfig } from './app-config';
+import { isFakeBackendUrl } from './fake-backend';
+import { parseTagExpression, tagExpressionToRegExp } from './tags';
+import { ErrorCode } from '../utils/ErrorConstants';
+import { ErrorReportingUtils } from '../utils/ErrorReportingUtils';
+
+/**
+ * Production safety guard
+ *
+ * When the current environment is a production environment of the app (AppConfig.isProduction):
+ * - tests tagged with one of the app's `destructiveTags` are excluded from the run
+ * - ApiUtils refuses non-GET requests unless listed in `allowedProductionRequests`;
+ *   requests to the local fake backend are never refused
+ * Everything suppressed is listed by the ProductionGuardReporter at the end of the run.
+ */
+
+// Annotation type used to report suppressed operations to the ProductionGuardReporter
+export const PRODUCTION_GUARD_ANNOTATION = 'production-guard';
+
+// Set for the `playwright test --list` pass that finds the tests a production run excludes
+const EXCLUDED_TESTS_LIST_VARIABLE = 'PRODUCTION_GUARD_LIST';
+
+/**
+ * JSON reporter suite, as far as listExcludedTests reads it
+ */
+interface ListedSuite {
+  title: string;
+  file: string;
+  specs?: { title: string; tests: { projectName: string }[] }[];
+  suites?: ListedSuite[];
+}
+
+/**
+ * Whether the run targets a production environment
+ * @param config Test configuration
+ * @param appConfig Configuration of the application under test
+ */
+export function isProductionRun(config: TestConfig = CONFIG, appConfig: AppConfig = getAppConfig(config.app)): boolean {
+  return appConfig.isProduction(config.env);
+}
+
+/**
+ * Build a grep pattern that matches tests carrying any destructive tag
+ * @param tags Destructive tag names (without @)
+ * @param within Tag expression the tests must also match, e.g. the run's TAGS
+ * @returns Pattern, or undefined if there are no destructive tags
+ */
+export function getDestructiveTagPattern(tags: string[], within?: string): RegExp | undefined {
+  if (tags.length === 0) {
+    return undefined;
+  }
+  const destructive = tags.join(' or ');
+  return tagExpressionToRegExp(parseTagExpression(within ? `(${within}) and (${destructive})` : destructive));
+}
+
+/**
+ * Whether this process is the list pass started by listExcludedTests
+ * Its configuration selects the destructive tests instead of excluding them.
+ */
+export function isExcludedTestsListRun(): boolean {
+  return process.env[EXCLUDED_TESTS_LIST_VARIABLE] === 'true';
+}
+
+/**
+ * List the tests a production run excludes for carrying a destructive tag
+ *
+ * The excluded tests never reach the run's reporters, so they are listed by a separate
+ * `playwright test --list` of the same files, whose configuration selects them instead
+ * (see isExcludedTestsListRun).
+ * @param files Test files of the run, relative to the repository root
+ * @param ignoreProjects Projects whose tests are not reported, e.g. the auth setup project
+ * @returns Tests as 'project › file › title', or undefined if they could not be listed
+ */
+export function listExcludedTests(files: string[], ignoreProjects: string[] = []): string[] | undefined {
+  if (files.length === 0) {
+    return [];
+  }
+
+  const outputFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'production-guard-')), 'list.json');
+  try {
+    const result = spawnSync(process.execPath, [
+      require.resolve('@playwright/test/cli'), 'test', '--list', '--reporter=json',
+      ...files.map(file => `${path.resolve(ROOT_DIR, file).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`)
+    ], {
+      cwd: ROOT_DIR,
+      env: { ...process.env, [EXCLUDED_TESTS_LIST_VARIABLE]: 'true', PLAYWRIGHT_JSON_OUTPUT_NAME: outputFile },
+      stdio: 'ignore'
+    });
+    if (result.status !== 0 || !fs.existsSync(outputFile)) {
+      return undefined;
+    }
+
+    const tests: string[] = [];
+    const collect = (suite: ListedSuite, titles: string[]) => {
+      for (const spec of suite.specs ?? []) {
+        for (const { projectName } of spec.tests) {
+          if (!ignoreProjects.includes(projectName)) {
+            tests.push([projectName, suite.file, ...titles, spec.title].join(' › '));
+          }
+        }
+      }
+      (suite.suites ?? []).forEach(child => collect(child, [...titles, child.title]));
+    };
+    const report = JSON.parse(fs.readFileSync(outputFile, 'utf8')) as { suites?: ListedSuite[] };
+    (report.suites ?? []).forEach(fileSuite => collect(fileSuite, []));
+    return tests;
+  } catch {
+    return undefined;
+  } finally {
+    fs.rmSync(path.dirname(outputFile), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Check whether an API request may be sent to production
+ * GET, HEAD and OPTIONS are always allowed; other methods must match an
+ * `allowedProductionRequests` entry such as 'POST /login' or 'DELETE /carts/*'.
+ * @param method HTTP method
+ * @param url Request URL or path
+ * @param appConfig Configuration of the application under test
+ */
+export function isRequestAllowedInProduction(method: string, url: string, appConfig: AppConfig = getAppConfig(CONFIG.app)): boolean {
+  const upperMethod = method.toUpperCase();
+  if (['GET', 'HEAD', 'OPTIONS'].includes(upperMethod)) {
+    return true;
+  }
+
+  const requestPath = new URL(url, 'http://placeholder').pathname;
+  return appConfig.allowedProductionRequests.some(entry => {
+    const [allowedMethod, allowedPath] = entry.split(' ');
+    const pathPattern = new RegExp(`^${allowedPath.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*')}$`);
+    return allowedMethod === upperMethod && pathPattern.test(requestPath);
+  });
+}
+
+/**
+ * Record a suppressed operation on the current test so the run summary can list it
+ * (no-op outside of a running test, e.g. in global setup)
+ * @param description What was suppressed
+ */
+export function recordSuppression(description: string): void {
+  try {
+    test.info().annotations.push({ type: PRODUCTION_GUARD_ANNOTATION, description });
+  } catch {
+    console.warn(`Production guard: ${description}`);
+  }
+}
+
+/**
+ * Refuse an API request that would change data in production
+ * Requests that resolve to the local fake backend are always allowed.
+ * @param method HTTP method
+ * @param url Request URL or path
+ * @param baseUrl Base URL a relative request path resolves against
+ * @throws ERROR_PRODUCTION_GUARD if the request is not allowed
+ */
+export function assertRequestAllowed(method: string, url: string, baseUrl?: string): void {
+  if (!isProductionRun() || isRequestAllowedInProduction(method, url)) {
+    return;
+  }
+  if (baseUrl && isFakeBackendUrl(new URL(url, baseUrl).href)) {
+    return;
+  }
+
+  const description = `${method.toUpperCase()} ${url} blocked`;
+  recordSuppression(description);
+  throw ErrorReportingUtils.createError(
+    ErrorCode.ERROR_PRODUCTION_GUARD,
+    `${description} in ${CONFIG.env}; add '${method.toUpperCase()} <path>' to allowedProductionRequests in apps/${CONFIG.app}/app.config.yaml if it is safe`
+  );
+}
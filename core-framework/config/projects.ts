@@ -0,0 +1,150 @@
+import path from 'path';
+import { devices, PlaywrightTestProject } from '@playwright/test';
+import { AppConfig, BrowserName, ROOT_DIR } from './app-config';
+import { ConfigValidationError } from './config-schema';
+import { TestConfig } from './config';
+import { parseTagExpression } from './tags';
+import { AuthUtils } from '../utils/AuthUtils';
+
+// Name of the project that logs each role in once and caches its storageState
+export const AUTH_SETUP_PROJECT = 'auth-setup';
+
+// Playwright device descriptor used for each desktop browser project
+const DESKTOP_DEVICES: Record<BrowserName, string> = {
+  chromium: 'Desktop Chrome',
+  firefox: 'Desktop Firefox',
+  webkit: 'Desktop Safari'
+};
+
+// Short aliases accepted in --devices; the alias is also used as the project name
+export const DEVICE_ALIASES: Record<string, string> = {
+  'mobile-chrome': 'Pixel 5',
+  'mobile-safari': 'iPhone 12',
+  'tablet-safari': 'iPad (gen 7)'
+};
+
+// Options of `playwright test` that take a value, which is then not a file filter
+const VALUE_OPTIONS = [
+  '-c', '--config', '-g', '--grep', '--grep-invert', '--global-timeout', '-j', '--workers', '--max-failures',
+  '--output', '--project', '--repeat-each', '--reporter', '--retries', '--shard', '--timeout', '--trace',
+  '--tsconfig', '--browser', '--ui-host', '--ui-port', '--test-list', '--test-list-invert'
+];
+
+/**
+ * Narrow test files to those matched by the file filters of the `playwright test` command
+ * line (e.g. `npx playwright test tests/api`), with Playwright's matching: each filter is a
+ * case-insensitive regular expression tested against the absolute path.
+ * @param files Test files relative to the repository root
+ * @param argv Command line of the process; workers have no filters
+ */
+export function selectCliFiles(files: string[], argv: string[] = process.argv): string[] {
+  const testIndex = argv.indexOf('test');
+  if (testIndex < 0) {
+    return files;
+  }
+
+  const filters: RegExp[] = [];
+  const args = argv.slice(testIndex + 1);
+  for (let index = 0; index < args.length; index++) {
+    if (VALUE_OPTIONS.includes(args[index])) {
+      index++;
+    } else if (!args[index].startsWith('-')) {
+      const filter = args[index].replace(/:\d+(:\d+)?$/, '');
+      const match = /^\/(.*)\/([gi]*)$/.exec(filter);
+      filters.push(match ? new RegExp(match[1], match[2].replace('g', '')) : new RegExp(filter, 'i'));
+    }
+  }
+
+  return filters.length === 0
+    ? files
+    : files.filter(file => filters.some(filter => filter.test(path.resolve(ROOT_DIR, file))));
+}
+
+/**
+ * Turn a Playwright device name into a project name, e.g. 'iPhone 13' -> 'iphone-13'
+ * @param deviceName Device name from Playwright's device registry
+ */
+export function toProjectName(deviceName: string): string {
+  return deviceName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Build the Playwright projects for the configured browser/device matrix
+ *
+ * One project is generated per desktop browser in `config.browsers` and one per
+ * emulated device in `config.devices`. Browsers listed in the app's `excludeBrowsers`
+ * are dropped, together with any device that runs on that engine. When the app caches
+ * sessions (`loginPerTest: false`) and tests of the run use `test.use({ role })`, an auth
+ * setup project logging in those roles is added as a dependency.
+ * @param config Resolved test configuration
+ * @param appConfig Configuration of the application under test
+ * @param testFiles Test files of the run, relative to the repository root
+ * @returns Playwright projects array
+ */
+export function buildProjects(config: TestConfig, appConfig: AppConfig, testFiles: string[]): PlaywrightTestProject[] {
+  const projects: PlaywrightTestProject[] = [];
+  const skipped: string[] = [];
+  const issues: string[] = [];
+  const isExcluded = (browser: BrowserName) => appConfig.excludeBrowsers.includes(browser);
+
+  for (const browser of config.browsers) {
+    if (isExcluded(browser)) {
+      skipped.push(browser);
+      continue;
+    }
+    projects.push({
+      name: browser,
+      use: { ...devices[DESKTOP_DEVICES[browser]] }
+    });
+  }
+
+  for (const requested of config.devices) {
+    const deviceName = DEVICE_ALIASES[requested] ?? requested;
+    const descriptor = devices[deviceName];
+    if (!descriptor) {
+      issues.push(`devices: unknown device '${requested}' (use a Playwright device name such as 'Pixel 5' or an alias: ${Object.keys(DEVICE_ALIASES).join(', ')})`);
+      continue;
+    }
+    const name = DEVICE_ALIASES[requested] ? requested : toProjectName(deviceName);
+    if (isExcluded(descriptor.defaultBrowserType)) {
+      skipped.push(`${name} (${descriptor.defaultBrowserType})`);
+      continue;
+    }
+    projects.push({ name, use: { ...descriptor } });
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+
+  if (skipped.length > 0) {
+    console.log(`Skipping projects excluded by ${config.app} app config: ${skipped.join(', ')}`);
+  }
+
+  if (projects.length === 0) {
+    throw new ConfigValidationError([
+      `no projects left to run for '${config.app}': requested browsers/devices are all excluded (excludeBrowsers: ${appConfig.excludeBrowsers.join(', ')})`
+    ]);
+  }
+
+  const roles = AuthUtils.isSessionCacheEnabled(config.app)
+    ? AuthUtils.getUsedRoles(testFiles, config.tags ? parseTagExpression(config.tags) : undefined, config.app)
+    : [];
+  if (roles.length > 0) {
+    AuthUtils.setSetupRoles(roles);
+    return [
+      {
+        name: AUTH_SETUP_PROJECT,
+        testDir: __dirname,
+        testMatch: /auth\.setup\.ts$/,
+        // Log in whatever the tag filters and the production guard select
+        grep: /.*/,
+        grepInvert: [],
+        use: { ...projects[0].use }
+      },
+      ...projects.map(project => ({ ...project, dependencies: [AUTH_SETUP_PROJECT] }))
+    ];
+  }
+
+  return projects;
+}
@@ -0,0 +1,105 @@
+import { TestDetails } from '@playwright/test';
+import CONFIG from './config';
+import { DataUtils } from '../utils/DataUtils';
+import { ErrorCode } from '../utils/ErrorConstants';
+import { ErrorReportingUtils } from '../utils/ErrorReportingUtils';
+
+/**
+ * Data-driven tests from scenario tables
+ *
+ * A scenario table is a list of rows in a test data file, loaded with DataUtils for the
+ * current environment (so environment overrides apply). Each row becomes one Playwright
+ * test, titled from a template filled with the row's values and tagged with its tags:
+ *
+ *   default:
+ *     scenarios:
+ *       - { userType: standardUser, expected: success, tags: [smoke] }
+ *       - { userType: lockedOutUser, expected: error, errorText: locked out }
+ *
+ *   for (const { title, details, row } of expandScenarios<LoginScenario>({ app: 'sauce-demo', file: 'login-scenarios', title: '{userType} login: {expected}' })) {
+ *     test(title, details, async ({ loginPage }) => { ... });
+ *   }
+ *
+ * The tests are declared by the spec itself because Playwright attributes a test to the file
+ * test() is called from; declared here, they would be reported and sharded under this file.
+ */
+
+/**
+ * Fields every scenario row may have besides its own data
+ */
+export interface ScenarioRow {
+  // Test title; overrides the title template
+  title?: string;
+  // Tags without '@', e.g. [smoke, validation]
+  tags?: string[];
+  // Environments the row runs in; all environments when unset
+  environments?: string[];
+}
+
+export interface ScenarioTableOptions {
+  // Application whose testdata folder holds the table
+  app: string;
+  // Logical test data name, e.g. 'login-scenarios'
+  file: string;
+  // Property of the data that holds the rows (default 'scenarios')
+  key?: string;
+  // Title template with {field} placeholders, e.g. '{userType} login: {expected}'
+  title?: string;
+  // Environment to load the table for (defaults to CONFIG.env)
+  env?: string;
+}
+
+/**
+ * A row together with the title and details of the test it expands to
+ */
+export interface Scenario<Row extends ScenarioRow> {
+  title: string;
+  // Second argument of test(), carrying the row's tags
+  details: TestDetails;
+  row: Row;
+}
+
+/**
+ * Load a scenario table and work out the title and tags of each row's test
+ * Rows whose `environments` do not include the environment are left out.
+ * @param options Table to load
+ * @throws ERROR_DATA_FORMAT if the rows are not a list, a placeholder has no value or two rows get the same title
+ */
+export function expandScenarios<Row extends ScenarioRow>(options: ScenarioTableOptions): Scenario<Row>[] {
+  const env = options.env || CONFIG.env;
+  const key = options.key ?? 'scenarios';
+  const source = `${options.app}/testdata/${options.file}`;
+  const rows = DataUtils.loadTestData<Record<string, Row[]>>(options.app, options.file, env)?.[key];
+  if (!Array.isArray(rows)) {
+    throw ErrorReportingUtils.createError(ErrorCode.ERROR_DATA_FORMAT, `${source}: '${key}' must be a list of scenario rows`);
+  }
+
+  const scenarios: Scenario<Row>[] = [];
+  rows.forEach((row, index) => {
+    if (row.environments && !row.environments.includes(env)) {
+      return;
+    }
+    const title = row.title ?? fillTitle(options.title ?? `${options.file} #{index}`, row, index, `${source} ${key}[${index}]`);
+    if (scenarios.some(scenario => scenario.title === title)) {
+      throw ErrorReportingUtils.createError(
+        ErrorCode.ERROR_DATA_FORMAT,
+        `${source} ${key}[${index}]: duplicate test title '${title}' (set 'title' on the row or add a field to the template)`
+      );
+    }
+    scenarios.push({ title, details: { tag: (row.tags ?? []).map(tag => tag.startsWith('@') ? tag : `@${tag}`) }, row });
+  });
+  return scenarios;
+}
+
+/**
+ * Fill the {field} placeholders of a title template ({index} is the row's position)
+ */
+function fillTitle(template: string, row: ScenarioRow, index: number, location: string): string {
+  return template.replace(/\{(\w+)\}/g, (_match, field: string) => {
+    const value = field === 'index' ? index + 1 : (row as Record<string, unknown>)[field];
+    if (value === undefined || value === null || typeof value === 'object') {
+      throw ErrorReportingUtils.createError(ErrorCode.ERROR_DATA_FORMAT, `${location}: no value for '{${field}}' in the title template`);
+    }
+    return String(value);
+  });
+}
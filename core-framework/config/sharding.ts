@@ -0,0 +1,313 @@
+import fs from 'fs';
+import path from 'path';
+import { ROOT_DIR } from './app-config';
+import { ConfigValidationError } from './config-schema';
+import { TestConfig } from './config';
+
+/**
+ * Duration-balanced sharding
+ *
+ * SHARD=2/5 runs the second of five shards. Test files are distributed over the shards
+ * by their historical duration, which the DurationHistoryReporter records after every run
+ * in <results>/duration-history.json; without history every file counts the same. The partition is
+ * deterministic, so every CI agent computes the same split as long as they share the
+ * same history. Each shard writes a manifest listing the full partition, which lets
+ * merged reports detect shards or files that never ran.
+ */
+
+export interface ShardSpec {
+  current: number;
+  total: number;
+}
+
+export interface ShardFile {
+  // Path relative to the repository root
+  file: string;
+  estimatedMs: number;
+}
+
+export interface ShardPlan {
+  shard: ShardSpec;
+  strategy: 'duration' | 'file-count';
+  // Files of every shard, index 0 is shard 1
+  shards: ShardFile[][];
+}
+
+export interface ShardManifest {
+  app: string;
+  env: string;
+  shard: ShardSpec;
+  strategy: ShardPlan['strategy'];
+  generatedAt: string;
+  files: ShardFile[];
+  estimatedMs: number;
+  // Full partition, so any one manifest is enough to know what every shard should run
+  partition: string[][];
+}
+
+/**
+ * Duration of one finished test, as reported to the DurationHistoryReporter
+ */
+export interface DurationSample {
+  // Path relative to the repository root
+  file: string;
+  // Title path inside the file, e.g. 'Cart › Add single product to cart'
+  test: string;
+  project: string;
+  durationMs: number;
+}
+
+/**
+ * Recent durations of one test in one project
+ */
+export interface DurationHistoryEntry {
+  file: string;
+  test: string;
+  project: string;
+  // Most recent last, at most MAX_DURATION_SAMPLES
+  durations: number[];
+  lastRun: string;
+}
+
+// Same default as Playwright's testMatch
+const TEST_FILE_PATTERN = /\.(spec|test)\.[cm]?[jt]sx?$/;
+
+// Folder under the results directory that receives the shard manifests
+export const SHARD_MANIFEST_DIR = 'shards';
+
+// File under the results directory that keeps the recent durations of every test
+export const DURATION_HISTORY_FILE = 'duration-history.json';
+
+// Durations kept per test; older ones are dropped
+const MAX_DURATION_SAMPLES = 5;
+
+// Tests that have not run for this long (e.g. renamed ones) are dropped from the history
+const MAX_HISTORY_AGE_DAYS = 30;
+
+/**
+ * Parse a shard specification such as '2/5'
+ * @param value Shard specification
+ * @throws ConfigValidationError if the value is not 'current/total' with 1 <= current <= total
+ */
+export function parseShard(value: string): ShardSpec {
+  const match = /^(\d+)\/(\d+)$/.exec(value.trim());
+  const current = match ? Number(match[1]) : NaN;
+  const total = match ? Number(match[2]) : NaN;
+  if (!match || current < 1 || total < 1 || current > total) {
+    throw new ConfigValidationError([`shard: expected 'current/total' such as '2/5', got '${value}'`]);
+  }
+  return { current, total };
+}
+
+/**
+ * List the test files of a test directory, relative to the repository root
+ * @param testDir Test directory
+ * @param rootDir Repository root
+ */
+export function listTestFiles(testDir: string, rootDir: string): string[] {
+  if (!fs.existsSync(testDir)) {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(testDir, { withFileTypes: true })) {
+    const entryPath = path.join(testDir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listTestFiles(entryPath, rootDir));
+    } else if (TEST_FILE_PATTERN.test(entry.name)) {
+      files.push(path.relative(rootDir, entryPath).split(path.sep).join('/'));
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Read the duration history
+ * @param resultsDir Results directory of the app
+ * @returns History entries (empty if nothing was recorded yet or the file is unreadable)
+ */
+function readDurationHistory(resultsDir: string): DurationHistoryEntry[] {
+  const historyPath = path.join(resultsDir, DURATION_HISTORY_FILE);
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+  try {
+    const entries = JSON.parse(fs.readFileSync(historyPath, 'utf8'));
+    return Array.isArray(entries) ? entries : [];
+  } catch (error: any) {
+    console.warn(`Ignoring unreadable duration history ${historyPath}: ${error.message}`);
+    return [];
+  }
+}
+
+/**
+ * Add the durations of a run to the duration history
+ *
+ * Each test keeps its last MAX_DURATION_SAMPLES durations. Tests whose file no longer
+ * exists or that have not run for MAX_HISTORY_AGE_DAYS are dropped, so the history stays
+ * bounded by the size of the test suite.
+ * @param rootDir Repository root the sample file paths are relative to
+ * @param resultsDir Results directory of the app
+ * @param samples Durations of the finished tests
+ * @param now Time of the run
+ */
+export function recordDurations(rootDir: string, resultsDir: string, samples: DurationSample[], now: Date = new Date()): void {
+  const lastRun = now.toISOString();
+  const entries = new Map<string, DurationHistoryEntry>();
+  const keyOf = (entry: { file: string; test: string; project: string }) => `${entry.file}\u0000${entry.test}\u0000${entry.project}`;
+
+  for (const entry of readDurationHistory(resultsDir)) {
+    entries.set(keyOf(entry), entry);
+  }
+  for (const sample of samples) {
+    const entry = entries.get(keyOf(sample)) ?? { file: sample.file, test: sample.test, project: sample.project, durations: [], lastRun };
+    entry.durations = [...entry.durations, sample.durationMs].slice(-MAX_DURATION_SAMPLES);
+    entry.lastRun = lastRun;
+    entries.set(keyOf(sample), entry);
+  }
+
+  const oldest = now.getTime() - MAX_HISTORY_AGE_DAYS * 24 * 60 * 60 * 1000;
+  const kept = [...entries.values()]
+    .filter(entry => Date.parse(entry.lastRun) >= oldest && fs.existsSync(path.resolve(rootDir, entry.file)))
+    .sort((a, b) => keyOf(a).localeCompare(keyOf(b)));
+
+  fs.mkdirSync(resultsDir, { recursive: true });
+  fs.writeFileSync(path.join(resultsDir, DURATION_HISTORY_FILE), JSON.stringify(kept, null, 2));
+}
+
+/**
+ * Estimate the duration of each test file from the duration history
+ *
+ * A file's estimate is the sum, over its tests, of each test's average recorded duration.
+ * @param resultsDir Results directory of the app
+ * @returns Estimated milliseconds by file path relative to the repository root
+ */
+export function loadDurationHistory(resultsDir: string): Map<string, number> {
+  const history = new Map<string, number>();
+  for (const entry of readDurationHistory(resultsDir)) {
+    if (entry.durations.length === 0) {
+      continue;
+    }
+    const average = entry.durations.reduce((sum, duration) => sum + duration, 0) / entry.durations.length;
+    history.set(entry.file, (history.get(entry.file) ?? 0) + Math.round(average));
+  }
+  return history;
+}
+
+/**
+ * Split test files into shards of roughly equal estimated duration
+ *
+ * Files are assigned longest first to the shard with the smallest total so far (ties go to
+ * the lower shard, files of equal cost are taken in path order), which keeps the result
+ * deterministic. Files without history are estimated at the average of the known files.
+ * @param files Test files relative to the repository root
+ * @param history Estimated milliseconds by file
+ * @param shard Shard to plan for
+ */
+export function planShards(files: string[], history: Map<string, number>, shard: ShardSpec): ShardPlan {
+  const known = files.filter(file => history.has(file));
+  const strategy = known.length > 0 ? 'duration' : 'file-count';
+  const fallbackMs = known.length > 0
+    ? Math.round(known.reduce((sum, file) => sum + history.get(file)!, 0) / known.length)
+    : 1;
+
+  const costs = files
+    .map(file => ({ file, estimatedMs: history.get(file) ?? fallbackMs }))
+    .sort((a, b) => b.estimatedMs - a.estimatedMs || a.file.localeCompare(b.file));
+
+  const shards: ShardFile[][] = Array.from({ length: shard.total }, () => []);
+  const totals = new Array<number>(shard.total).fill(0);
+  for (const cost of costs) {
+    const target = totals.indexOf(Math.min(...totals));
+    shards[target].push(cost);
+    totals[target] += cost.estimatedMs;
+  }
+  shards.forEach(files => files.sort((a, b) => a.file.localeCompare(b.file)));
+
+  return { shard, strategy, shards };
+}
+
+/**
+ * Plan the shards for the configured run
+ * @param config Resolved test configuration (config.shard must be set)
+ */
+export function planShardsForConfig(config: TestConfig): ShardPlan {
+  const testDir = path.join(ROOT_DIR, 'apps', config.app, 'tests');
+  return planShards(listTestFiles(testDir, ROOT_DIR), loadDurationHistory(config.testResultsDir), parseShard(config.shard!));
+}
+
+/**
+ * Files the current shard runs
+ * @param plan Shard plan
+ */
+export function getShardFiles(plan: ShardPlan): ShardFile[] {
+  return plan.shards[plan.shard.current - 1];
+}
+
+/**
+ * Write the manifest of the current shard to <results>/shards/shard-<current>-of-<total>.json
+ * @param config Resolved test configuration
+ * @param plan Shard plan
+ * @returns Path of the manifest
+ */
+export function writeShardManifest(config: TestConfig, plan: ShardPlan): string {
+  const files = getShardFiles(plan);
+  const manifest: ShardManifest = {
+    app: config.app,
+    env: config.env,
+    shard: plan.shard,
+    strategy: plan.strategy,
+    generatedAt: new Date().toISOString(),
+    files,
+    estimatedMs: files.reduce((sum, file) => sum + file.estimatedMs, 0),
+    partition: plan.shards.map(shardFiles => shardFiles.map(file => file.file))
+  };
+
+  const manifestDir = path.join(config.testResultsDir, SHARD_MANIFEST_DIR);
+  fs.mkdirSync(manifestDir, { recursive: true });
+  const manifestPath = path.join(manifestDir, `shard-${plan.shard.current}-of-${plan.shard.total}.json`);
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  return manifestPath;
+}
+
+/**
+ * Check a set of shard manifests (e.g. collected from all CI agents before merging reports)
+ *
+ * Reports shards whose manifest is missing, agents that computed a different partition
+ * and, when the files seen in the merged report are given, files that did not report.
+ * @param manifests Manifests of one run
+ * @param reportedFiles Test files present in the merged report (relative to the repository root)
+ * @returns Problems found; empty when the run is complete
+ */
+export function checkShardManifests(manifests: ShardManifest[], reportedFiles?: string[]): string[] {
+  if (manifests.length === 0) {
+    return ['no shard manifests found'];
+  }
+
+  const problems: string[] = [];
+  const total = manifests[0].shard.total;
+  const expected = manifests[0].partition;
+
+  for (let current = 1; current <= total; current++) {
+    if (!manifests.some(manifest => manifest.shard.current === current && manifest.shard.total === total)) {
+      problems.push(`missing manifest for shard ${current}/${total}`);
+    }
+  }
+
+  for (const manifest of manifests) {
+    if (manifest.shard.total !== total || JSON.stringify(manifest.partition) !== JSON.stringify(expected)) {
+      problems.push(`shard ${manifest.shard.current}/${manifest.shard.total} computed a different partition (agents must share the same duration history)`);
+    }
+  }
+
+  if (reportedFiles) {
+    const reported = new Set(reportedFiles);
+    expected.forEach((files, index) => {
+      const missing = files.filter(file => !reported.has(file));
+      if (missing.length > 0) {
+        problems.push(`shard ${index + 1}/${total}: no results for ${missing.join(', ')}`);
+      }
+    });
+  }
+
+  return problems;
+}
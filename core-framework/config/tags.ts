@@ -0,0 +1,229 @@
+import { AppConfig } from './app-config';
+import { ConfigValidationError } from './config-schema';
+
+/**
+ * Tag expressions for test selection
+ *
+ * `--tags` / TAGS accepts a boolean expression over tag names, e.g.
+ *   smoke
+ *   smoke,regression                       (comma is shorthand for 'or')
+ *   (smoke or checkout) and not flaky
+ * Tags are the @-tokens of a test's title, of every enclosing test.describe title and
+ * of the `tag` option, so a tag on a describe block applies to all tests inside it.
+ * The expression is compiled to a regular expression used as Playwright's `grep`,
+ * which is matched against exactly that title path.
+ */
+
+export type TagExpression =
+  | { type: 'tag'; name: string }
+  | { type: 'not'; operand: TagExpression }
+  | { type: 'and' | 'or'; left: TagExpression; right: TagExpression };
+
+type Token = { kind: 'tag' | 'and' | 'or' | 'not' | '(' | ')'; value: string; position: number };
+
+const KEYWORDS = ['and', 'or', 'not'];
+
+/**
+ * Split an expression into tokens
+ * @param expression Tag expression
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:([()])|(,)|(@?[^\s(),]+))/y;
+  let match: RegExpExecArray | null;
+
+  while (pattern.lastIndex < expression.length && (match = pattern.exec(expression))) {
+    const position = match.index + match[0].length - (match[1] ?? match[2] ?? match[3]).length;
+    if (match[1]) {
+      tokens.push({ kind: match[1] as '(' | ')', value: match[1], position });
+    } else if (match[2]) {
+      tokens.push({ kind: 'or', value: ',', position });
+    } else if (KEYWORDS.includes(match[3].toLowerCase())) {
+      tokens.push({ kind: match[3].toLowerCase() as 'and' | 'or' | 'not', value: match[3], position });
+    } else {
+      tokens.push({ kind: 'tag', value: match[3].replace(/^@/, ''), position });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a tag expression
+ *
+ * Precedence from high to low: parentheses, not, and, or.
+ * @param expression Tag expression, e.g. '(smoke or checkout) and not flaky'
+ * @returns Expression tree
+ * @throws ConfigValidationError if the expression is malformed
+ */
+export function parseTagExpression(expression: string): TagExpression {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const fail = (message: string): never => {
+    const position = tokens[index]?.position ?? expression.length;
+    throw new ConfigValidationError([`tags: ${message} at position ${position + 1} in '${expression}'`]);
+  };
+
+  const parseOr = (): TagExpression => {
+    let left = parseAnd();
+    while (tokens[index]?.kind === 'or') {
+      index++;
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): TagExpression => {
+    let left = parseUnary();
+    while (tokens[index]?.kind === 'and') {
+      index++;
+      left = { type: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): TagExpression => {
+    const token = tokens[index];
+    if (!token) {
+      return fail('expected a tag');
+    }
+    if (token.kind === 'not') {
+      index++;
+      return { type: 'not', operand: parseUnary() };
+    }
+    if (token.kind === '(') {
+      index++;
+      const inner = parseOr();
+      if (tokens[index]?.kind !== ')') {
+        return fail(`expected ')'`);
+      }
+      index++;
+      return inner;
+    }
+    if (token.kind === 'tag') {
+      index++;
+      return { type: 'tag', name: token.value };
+    }
+    return fail(`unexpected '${token.value}'`);
+  };
+
+  const tree = parseOr();
+  if (index < tokens.length) {
+    fail(`unexpected '${tokens[index].value}'`);
+  }
+  return tree;
+}
+
+/**
+ * List the tag names referenced by an expression
+ * @param expression Expression tree
+ */
+export function getExpressionTags(expression: TagExpression): string[] {
+  switch (expression.type) {
+    case 'tag':
+      return [expression.name];
+    case 'not':
+      return getExpressionTags(expression.operand);
+    default:
+      return [...new Set([...getExpressionTags(expression.left), ...getExpressionTags(expression.right)])];
+  }
+}
+
+/**
+ * Evaluate an expression against the tags of one test
+ * @param expression Expression tree
+ * @param tags Tags of the test, with or without @
+ */
+export function evaluateTagExpression(expression: TagExpression, tags: string[]): boolean {
+  switch (expression.type) {
+    case 'tag':
+      return tags.some(tag => tag.replace(/^@/, '') === expression.name);
+    case 'not':
+      return !evaluateTagExpression(expression.operand, tags);
+    case 'and':
+      return evaluateTagExpression(expression.left, tags) && evaluateTagExpression(expression.right, tags);
+    case 'or':
+      return evaluateTagExpression(expression.left, tags) || evaluateTagExpression(expression.right, tags);
+  }
+}
+
+/**
+ * Whether a test tagged with some of the given tags could match an expression
+ * A test's tags are among the @-tokens of its file, so a file for which this is false
+ * has no test the expression selects.
+ * @param expression Expression tree
+ * @param tags Candidate tags, with or without @
+ */
+export function canMatchTagExpression(expression: TagExpression, tags: string[]): boolean {
+  const names = tags.map(tag => tag.replace(/^@/, ''));
+  // Only tags the expression mentions matter; try every combination of them
+  const relevant = getExpressionTags(expression).filter(tag => names.includes(tag));
+  for (let mask = 0; mask < 2 ** relevant.length; mask++) {
+    if (evaluateTagExpression(expression, relevant.filter((_, index) => mask & (1 << index)))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Compile an expression to lookahead assertions anchored at the start of the title,
+ * so that 'and', 'or' and 'not' can be combined freely
+ * @param expression Expression tree
+ */
+function toAssertion(expression: TagExpression): string {
+  switch (expression.type) {
+    case 'tag': {
+      const name = expression.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      // Same tokenization as Playwright: a tag is an @-token delimited by whitespace
+      return `(?=[\\s\\S]*(?:^|\\s)@${name}(?=\\s|$))`;
+    }
+    case 'not':
+      return `(?!${toAssertion(expression.operand)})`;
+    case 'and':
+      return `${toAssertion(expression.left)}${toAssertion(expression.right)}`;
+    case 'or':
+      return `(?:${toAssertion(expression.left)}|${toAssertion(expression.right)})`;
+  }
+}
+
+/**
+ * Compile an expression to a regular expression usable as Playwright's `grep`
+ * @param expression Expression tree
+ */
+export function tagExpressionToRegExp(expression: TagExpression): RegExp {
+  return new RegExp(`^${toAssertion(expression)}`);
+}
+
+/**
+ * Find tags that are not in the app's allowed-tags list
+ * @param tags Tag names, with or without @
+ * @param appConfig Configuration of the application under test
+ * @returns Unknown tags (empty if the app does not restrict tags)
+ */
+export function findUnknownTags(tags: string[], appConfig: AppConfig): string[] {
+  const allowedTags = appConfig.allowedTags;
+  if (!allowedTags) {
+    return [];
+  }
+  return [...new Set(tags.map(tag => tag.replace(/^@/, '')))].filter(tag => !allowedTags.includes(tag));
+}
+
+/**
+ * Build the grep pattern for a --tags expression
+ * @param expression Tag expression from the configuration
+ * @param appConfig Configuration of the application under test
+ * @returns Pattern matching the selected tests
+ * @throws ConfigValidationError if the expression is malformed or uses tags the app does not allow
+ */
+export function buildTagFilter(expression: string, appConfig: AppConfig): RegExp {
+  const tree = parseTagExpression(expression);
+  const unknownTags = findUnknownTags(getExpressionTags(tree), appConfig);
+  if (unknownTags.length > 0) {
+    throw new ConfigValidationError([
+      `tags: unknown tags ${unknownTags.map(tag => `'${tag}'`).join(', ')} (allowed: ${appConfig.allowedTags!.join(', ')})`
+    ]);
+  }
+  return tagExpressionToRegExp(tree);
+}
@@ -0,0 +1,45 @@
+import path from 'path';
+import { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { DurationSample, recordDurations } from '../config/sharding';
+
+/**
+ * Options passed from playwright.config.ts
+ */
+interface DurationHistoryReporterOptions {
+  rootDir: string;
+  resultsDir: string;
+}
+
+/**
+ * Reporter that records how long every test took, for duration-balanced sharding
+ * Sees every test of the run, whichever fixtures its spec uses; skipped tests are ignored.
+ */
+class DurationHistoryReporter implements Reporter {
+  private options: DurationHistoryReporterOptions;
+  private samples: DurationSample[] = [];
+
+  constructor(options: DurationHistoryReporterOptions) {
+    this.options = options;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    if (result.status === 'skipped') {
+      return;
+    }
+    // Title path is root, project, file, then describe blocks and the test title
+    this.samples.push({
+      file: path.relative(this.options.rootDir, test.location.file).split(path.sep).join('/'),
+      test: test.titlePath().slice(3).join(' › '),
+      project: test.parent.project()?.name ?? '',
+      durationMs: result.duration
+    });
+  }
+
+  onEnd(result: FullResult): void {
+    if (this.samples.length > 0) {
+      recordDurations(this.options.rootDir, this.options.resultsDir, this.samples);
+    }
+  }
+}
+
+export default DurationHistoryReporter;
@@ -0,0 +1,66 @@
+import { FullConfig, FullResult, Reporter, Suite, TestCase, TestResult } from '@playwright/test/reporter';
+import { PRODUCTION_GUARD_ANNOTATION } from '../config/production-guard';
+
+/**
+ * Options passed from playwright.config.ts
+ */
+interface ProductionGuardReporterOptions {
+  app: string;
+  env: string;
+  destructiveTags: string[];
+  // Tests excluded for their destructive tags; undefined if they could not be listed
+  excludedTests?: string[];
+}
+
+/**
+ * Reporter that summarizes what the production safety guard suppressed
+ * Only registered for runs against a production environment.
+ */
+class ProductionGuardReporter implements Reporter {
+  private options: ProductionGuardReporterOptions;
+  private suppressed: { test: string; description: string }[] = [];
+
+  constructor(options: ProductionGuardReporterOptions) {
+    this.options = options;
+  }
+
+  onBegin(config: FullConfig, suite: Suite): void {
+    console.log(`Production safety guard active for ${this.options.app} (${this.options.env})`);
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    for (const annotation of [...test.annotations, ...result.annotations]) {
+      if (annotation.type === PRODUCTION_GUARD_ANNOTATION) {
+        this.suppressed.push({ test: test.titlePath().filter(Boolean).join(' › '), description: annotation.description ?? '' });
+      }
+    }
+  }
+
+  onEnd(result: FullResult): void {
+    const lines = ['Production safety guard summary:'];
+
+    if (this.options.destructiveTags.length > 0) {
+      lines.push(`  Excluded tests tagged: ${this.options.destructiveTags.map(tag => `@${tag}`).join(', ')}`);
+      const excludedTests = this.options.excludedTests;
+      if (!excludedTests) {
+        lines.push('  Excluded tests: could not be listed');
+      } else if (excludedTests.length > 0) {
+        lines.push('  Excluded tests:');
+        excludedTests.forEach(test => lines.push(`    - ${test}`));
+      } else {
+        lines.push('  Excluded tests: none');
+      }
+    }
+
+    if (this.suppressed.length > 0) {
+      lines.push('  Blocked operations:');
+      this.suppressed.forEach(entry => lines.push(`    - ${entry.description} (${entry.test})`));
+    } else {
+      lines.push('  Blocked operations: none');
+    }
+
+    console.log(lines.join('\n'));
+  }
+}
+
+export default ProductionGuardReporter;
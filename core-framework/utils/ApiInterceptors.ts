@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { ApiInterceptor, ApiRequest, ApiResponse } from './ApiUtils';
+import { REDACTED, SecretUtils } from './SecretUtils';
+
+// Headers whose values are never logged
+const SENSITIVE_HEADERS = ['authorization', 'cookie', 'set-cookie', 'x-api-key', 'proxy-authorization'];
+
+// Body fields whose values are never logged
+const SENSITIVE_FIELDS = /^(password|token|secret|apiKey|accessToken|refreshToken|clientSecret)$/i;
+
+/**
+ * Duration of one request, as captured by ApiInterceptors.timing
+ */
+export interface ApiTiming {
+  method: string;
+  url: string;
+  status?: number;
+  durationMs: number;
+  attempts: number;
+}
+
+/**
+ * Built-in ApiUtils interceptors
+ * Combine them in an app's `api/interceptors.ts` or add them to one instance with
+ * `api.use(...)`.
+ */
+export class ApiInterceptors {
+  /**
+   * Give every request a correlation id header, unless it already has one
+   * @param header Header name
+   * @param createId Id generator
+   */
+  static correlationId(header: string = 'X-Correlation-Id', createId: () => string = () => crypto.randomUUID()): ApiInterceptor {
+    return (request, next) => {
+      const present = Object.keys(request.headers).some(name => name.toLowerCase() === header.toLowerCase());
+      return next(present ? request : { ...request, headers: { ...request.headers, [header]: createId() } });
+    };
+  }
+
+  /**
+   * Add headers computed from the request, e.g. an HMAC signature of its body
+   * @param sign Returns the headers to add
+   */
+  static signing(sign: (request: ApiRequest) => Record<string, string> | Promise<Record<string, string>>): ApiInterceptor {
+    return async (request, next) => next({ ...request, headers: { ...request.headers, ...await sign(request) } });
+  }
+
+  /**
+   * Log every request and its response with credentials and known secrets masked
+   * @param options headers / bodies: also log request headers / request and response bodies;
+   * log: where to write
+   */
+  static logging(options: { headers?: boolean; bodies?: boolean; log?: (line: string) => void } = {}): ApiInterceptor {
+    const log = options.log ?? ((line: string) => console.log(line));
+    return async (request, next) => {
+      const requestLine = `${request.method} ${request.url}`;
+      const headers = options.headers ? ` ${JSON.stringify(redactHeaders(request.headers))}` : '';
+      const body = options.bodies && request.data !== undefined ? ` ${JSON.stringify(redactBody(request.data))}` : '';
+      log(`→ ${requestLine}${headers}${body}`);
+
+      const started = Date.now();
+      try {
+        const response = await next(request);
+        log(`← ${response.status} ${requestLine} (${Date.now() - started} ms)${options.bodies ? ` ${JSON.stringify(redactBody(response.body))}` : ''}`);
+        return response;
+      } catch (error: any) {
+        log(`✗ ${requestLine} (${Date.now() - started} ms): ${SecretUtils.redact(error?.message ?? String(error))}`);
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Measure every request, including its retries
+   * @param onTiming Receives each timing
+   * @param slowMs Requests slower than this are logged as warnings
+   */
+  static timing(onTiming?: (timing: ApiTiming) => void, slowMs?: number): ApiInterceptor {
+    return async (request, next) => {
+      const started = Date.now();
+      let response: ApiResponse | undefined;
+      try {
+        response = await next(request);
+        return response;
+      } finally {
+        const timing: ApiTiming = {
+          method: request.method,
+          url: request.url,
+          status: response?.status,
+          durationMs: Date.now() - started,
+          attempts: response?.attempts.length ?? 0
+        };
+        onTiming?.(timing);
+        if (slowMs !== undefined && timing.durationMs > slowMs) {
+          console.warn(`Slow API request: ${timing.method} ${timing.url} took ${timing.durationMs} ms`);
+        }
+      }
+    };
+  }
+
+  /**
+   * Replace the body of successful responses with one of its fields, for APIs that wrap
+   * payloads in an envelope such as `{ "data": ... }`
+   * @param field Envelope field holding the payload
+   */
+  static unwrap(field: string = 'data'): ApiInterceptor {
+    return async (request, next) => {
+      const response = await next(request);
+      const body = response.body as Record<string, unknown> | null;
+      const ok = response.status >= 200 && response.status < 300;
+      return ok && typeof body === 'object' && body !== null && field in body
+        ? { ...response, body: body[field] }
+        : response;
+    };
+  }
+}
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) =>
+    [name, SENSITIVE_HEADERS.includes(name.toLowerCase()) ? REDACTED : SecretUtils.redact(value)]));
+}
+
+function redactBody(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactBody);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, SENSITIVE_FIELDS.test(key) ? REDACTED : redactBody(item)]));
+  }
+  return SecretUtils.redactValue(value);
+}
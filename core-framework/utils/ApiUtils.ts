@@ -1,26 +1,171 @@
-import { request, APIRequestContext } from '@playwright/test';
+import { request, errors, APIRequestContext, APIResponse, Cookie } from '@playwright/test';
 import CONFIG from '../config/config';
+import { assertRequestAllowed } from '../config/production-guard';
+import { loadAppInterceptors } from '../config/app-interceptors';
+import { AuthProvider, BearerAuthProvider } from './AuthProviders';
+import { ErrorCode } from './ErrorConstants';
+import { ErrorReportingUtils } from './ErrorReportingUtils';
+import { JsonSchema, SchemaDiff, SchemaUtils } from './SchemaUtils';
+
+// Query parameters of a request
+export type QueryParams = Record<string, string | number | boolean>;
+
+/**
+ * When and how often a failed request is sent again
+ */
+export interface RetryPolicy {
+  // Attempts after the first one
+  retries: number;
+  // Methods that are safe to repeat
+  methods: string[];
+  // Response statuses worth another attempt; timeouts and network errors are always retried
+  statusCodes: number[];
+  // Delay before the first retry, doubled for every following one
+  baseDelayMs: number;
+  // Upper bound of any delay, including one asked for by Retry-After
+  maxDelayMs: number;
+  // Fraction of each delay that is randomised (0 to 1), so parallel workers spread out
+  jitter: number;
+  // Wait as long as the response's Retry-After header asks instead of backing off
+  respectRetryAfter: boolean;
+}
+
+// Retry policy of every ApiUtils; the number of retries comes from CONFIG.apiRetries
+export const DEFAULT_RETRY_POLICY: Omit<RetryPolicy, 'retries'> = {
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  statusCodes: [408, 429, 500, 502, 503, 504],
+  baseDelayMs: 250,
+  maxDelayMs: 10000,
+  jitter: 0.2,
+  respectRetryAfter: true
+};
+
+/**
+ * Defaults of an ApiUtils instance
+ */
+export interface ApiUtilsOptions {
+  // Overrides of the default retry policy
+  retry?: Partial<RetryPolicy>;
+  // Timeout of each attempt in milliseconds (defaults to CONFIG.apiTimeout)
+  timeout?: number;
+  // Interceptor chain; defaults to the app's apps/<app>/api/interceptors.ts
+  interceptors?: ApiInterceptor[];
+  // Credentials sent with every request
+  auth?: AuthProvider;
+}
+
+/**
+ * Per-request options
+ */
+export interface ApiRequestOptions {
+  // Schema the JSON response body must match, e.g. a schema from the app's generated/schemas.ts
+  schema?: JsonSchema;
+  // Overrides of the instance's retry policy; false sends the request once
+  retry?: Partial<RetryPolicy> | false;
+  // Timeout of each attempt in milliseconds
+  timeout?: number;
+  // false sends the request without the auth provider's credentials, e.g. for a login request
+  auth?: false;
+}
+
+/**
+ * One attempt at sending a request
+ */
+export interface ApiAttempt {
+  method: string;
+  url: string;
+  // 1 for the first attempt
+  attempt: number;
+  // Response status; undefined when no response arrived
+  status?: number;
+  // Timeout or network error message
+  error?: string;
+  durationMs: number;
+  // Wait before the next attempt; undefined if there was none
+  retryDelayMs?: number;
+}
+
+/**
+ * Request as it passes through the interceptor chain
+ */
+export interface ApiRequest {
+  method: string;
+  // URL path, relative to the base URL
+  url: string;
+  headers: Record<string, string>;
+  data?: any;
+  params?: QueryParams;
+}
+
+/**
+ * Final response of a request, after any retries
+ */
+export interface ApiResponse {
+  // Absolute URL the response came from
+  url: string;
+  status: number;
+  statusText: string;
+  // Header names are lower case
+  headers: Record<string, string>;
+  // Parsed JSON body, or the text when the body is not JSON
+  body: unknown;
+  text: string;
+  attempts: ApiAttempt[];
+}
+
+/**
+ * Step of the interceptor chain
+ * Receives the request and `next`, which runs the rest of the chain and sends the request;
+ * it may change the request before calling `next` and the response after it.
+ */
+export type ApiInterceptor = (request: ApiRequest, next: (request: ApiRequest) => Promise<ApiResponse>) => Promise<ApiResponse>;
 
 /**
  * API Utilities for making API requests and handling responses
+ * Write requests (POST, PUT, DELETE) are refused against production environments
+ * unless listed in the app's allowedProductionRequests or sent to the local fake backend.
+ * Paths without a leading slash are resolved against the full base URL, including its path.
+ * Every request passes through an ordered chain of interceptors (the app's, from
+ * apps/<app>/api/interceptors.ts, unless given in the options), first one outermost.
+ * Idempotent requests that time out, fail to connect or get a retryable status are sent
+ * again with exponential backoff (see RetryPolicy), and every attempt is kept in `attempts`.
+ * Once out of retries a request fails with ERROR_NETWORK_TIMEOUT, ERROR_NETWORK_REQUEST_FAILED
+ * or, for a non-2xx response, ERROR_STATUS_CODE_UNEXPECTED; these errors carry the
+ * `attempts` and, for error statuses, the `status` and `response`.
+ * Credentials come from an AuthProvider, applied after the interceptors; a 401 response makes
+ * the provider refresh them and the request is sent again, and a second 401 (or one the
+ * provider cannot refresh) is reported and thrown as ERROR_SESSION_EXPIRED.
+ * A request given a response schema fails with ERROR_API_RESPONSE_INVALID if the body is
+ * not JSON and ERROR_API_SCHEMA_VALIDATION if it does not match; both are reported with
+ * ErrorReportingUtils and carry the mismatches as `error.diff`.
  */
 export class ApiUtils {
   private context: APIRequestContext;
   private baseUrl: string;
   private headers: Record<string, string>;
+  private retryPolicy: RetryPolicy;
+  private timeout: number;
+  private interceptors: ApiInterceptor[];
+  private authProvider?: AuthProvider;
+  private attemptLog: ApiAttempt[] = [];
 
   /**
    * Constructor for ApiUtils
    * @param baseUrl Optional base URL override (defaults to config API base URL)
    * @param headers Optional headers to include in all requests
+   * @param options Optional retry policy, timeout, interceptors and auth provider
    */
-  constructor(baseUrl?: string, headers?: Record<string, string>) {
+  constructor(baseUrl?: string, headers?: Record<string, string>, options?: ApiUtilsOptions) {
     this.baseUrl = baseUrl || CONFIG.apiBaseUrl;
     this.headers = {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
       ...headers
     };
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, retries: CONFIG.apiRetries ?? 0, ...options?.retry };
+    this.timeout = options?.timeout ?? CONFIG.apiTimeout;
+    this.interceptors = [...(options?.interceptors ?? loadAppInterceptors(CONFIG.app))];
+    this.authProvider = options?.auth;
   }
 
   /**
@@ -28,76 +173,316 @@ export class ApiUtils {
    */
   async init(): Promise<void> {
     this.context = await request.newContext({
-      baseURL: this.baseUrl,
-      extraHTTPHeaders: this.headers
+      baseURL: this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`
     });
   }
 
   /**
    * Set authentication token
+   * Shorthand for setAuthProvider(new BearerAuthProvider(token)).
    * @param token Authentication token
    */
   setAuthToken(token: string): void {
-    this.headers['Authorization'] = `Bearer ${token}`;
+    this.setAuthProvider(new BearerAuthProvider(token));
+  }
+
+  /**
+   * Set the credentials sent with subsequent requests
+   * @param provider Auth provider, or undefined to send no credentials
+   */
+  setAuthProvider(provider?: AuthProvider): void {
+    this.authProvider = provider;
+  }
+
+  /**
+   * Append interceptors to the end of the chain, closest to the network
+   * @param interceptors Interceptors to add
+   */
+  use(...interceptors: ApiInterceptor[]): this {
+    this.interceptors.push(...interceptors);
+    return this;
+  }
+
+  /**
+   * Headers the auth provider would add to a request now
+   * @returns The credential headers, or an empty object without a provider
+   */
+  async authHeaders(): Promise<Record<string, string>> {
+    return this.authProvider ? await this.authProvider.authenticate(this.context) : {};
+  }
+
+  /**
+   * Cookies the API has set in this instance's request context
+   */
+  async cookies(): Promise<Cookie[]> {
+    return (await this.context.storageState()).cookies;
+  }
+
+  /**
+   * Every attempt made by this instance, oldest first
+   */
+  get attempts(): readonly ApiAttempt[] {
+    return this.attemptLog;
   }
 
   /**
    * Make a GET request
    * @param url URL path
    * @param params Query parameters
+   * @param options Response schema, retry policy and timeout
    */
-  async get(url: string, params?: Record<string, string>): Promise<any> {
-    const response = await this.context.get(url, { params });
-    return await this.handleResponse(response);
+  async get<T = any>(url: string, params?: QueryParams, options?: ApiRequestOptions): Promise<T> {
+    const response = await this.execute({ method: 'GET', url, headers: { ...this.headers }, params }, options);
+    return await this.handleResponse(response, 'GET', url, options);
   }
 
   /**
    * Make a POST request
    * @param url URL path
    * @param data Request body
+   * @param params Query parameters
+   * @param options Response schema, retry policy and timeout
    */
-  async post(url: string, data?: any): Promise<any> {
-    const response = await this.context.post(url, {
-      data
-    });
-    return await this.handleResponse(response);
+  async post<T = any>(url: string, data?: any, params?: QueryParams, options?: ApiRequestOptions): Promise<T> {
+    assertRequestAllowed('POST', url, this.baseUrl);
+    const response = await this.execute({ method: 'POST', url, headers: { ...this.headers }, data, params }, options);
+    return await this.handleResponse(response, 'POST', url, options);
   }
 
   /**
    * Make a PUT request
    * @param url URL path
    * @param data Request body
+   * @param params Query parameters
+   * @param options Response schema, retry policy and timeout
    */
-  async put(url: string, data?: any): Promise<any> {
-    const response = await this.context.put(url, {
-      data
-    });
-    return await this.handleResponse(response);
+  async put<T = any>(url: string, data?: any, params?: QueryParams, options?: ApiRequestOptions): Promise<T> {
+    assertRequestAllowed('PUT', url, this.baseUrl);
+    const response = await this.execute({ method: 'PUT', url, headers: { ...this.headers }, data, params }, options);
+    return await this.handleResponse(response, 'PUT', url, options);
   }
 
   /**
    * Make a DELETE request
    * @param url URL path
+   * @param params Query parameters
+   * @param options Response schema, retry policy and timeout
+   */
+  async delete<T = any>(url: string, params?: QueryParams, options?: ApiRequestOptions): Promise<T> {
+    assertRequestAllowed('DELETE', url, this.baseUrl);
+    const response = await this.execute({ method: 'DELETE', url, headers: { ...this.headers }, params }, options);
+    return await this.handleResponse(response, 'DELETE', url, options);
+  }
+
+  /**
+   * Run a request through the interceptor chain and send it
+   * @param apiRequest The request
+   * @param options Retry policy and timeout overrides
+   * @returns The 2xx response
+   * @throws ERROR_STATUS_CODE_UNEXPECTED if the final response has an error status
+   */
+  private async execute(apiRequest: ApiRequest, options?: ApiRequestOptions): Promise<ApiResponse> {
+    const dispatch = (index: number, current: ApiRequest): Promise<ApiResponse> => {
+      const interceptor = this.interceptors[index];
+      return interceptor
+        ? interceptor(current, next => dispatch(index + 1, next))
+        : this.sendAuthenticated(current, options);
+    };
+
+    const response = await dispatch(0, apiRequest);
+    if (response.status < 200 || response.status >= 300) {
+      const text = response.text.length > 500 ? `${response.text.slice(0, 500)}...` : response.text;
+      const error = ErrorReportingUtils.createError(
+        ErrorCode.ERROR_STATUS_CODE_UNEXPECTED,
+        `${apiRequest.method} ${apiRequest.url} returned ${response.status} after ${response.attempts.length} attempt(s): ${text}`
+      );
+      Object.assign(error, { status: response.status, response, attempts: response.attempts });
+      throw error;
+    }
+    return response;
+  }
+
+  /**
+   * Send a request with the auth provider's credentials; the end of the interceptor chain
+   * A 401 response makes the provider refresh its credentials and the request is sent again.
+   * @param apiRequest The request
+   * @param options Retry policy, timeout and auth overrides
+   * @throws ERROR_SESSION_EXPIRED if the request is still unauthorized
+   */
+  private async sendAuthenticated(apiRequest: ApiRequest, options?: ApiRequestOptions): Promise<ApiResponse> {
+    const provider = options?.auth === false ? undefined : this.authProvider;
+    if (!provider) {
+      return await this.send(apiRequest, options);
+    }
+
+    const sendWithCredentials = async () => this.send({
+      ...apiRequest,
+      headers: { ...apiRequest.headers, ...await provider.authenticate(this.context) }
+    }, options);
+
+    let response = await sendWithCredentials();
+    let refreshed = false;
+    if (response.status === 401 && provider.refresh && await provider.refresh(this.context)) {
+      refreshed = true;
+      response = await sendWithCredentials();
+    }
+    if (response.status !== 401) {
+      return response;
+    }
+
+    const requestLine = `${apiRequest.method} ${apiRequest.url}`;
+    const message = `${requestLine} was refused with 401 ${refreshed ? 'after refreshing' : 'and could not refresh'} the ${provider.name} credentials`;
+    await new ErrorReportingUtils().reportError(ErrorCode.ERROR_SESSION_EXPIRED, { request: requestLine, provider: provider.name, refreshed, message });
+    const error = ErrorReportingUtils.createError(ErrorCode.ERROR_SESSION_EXPIRED, message);
+    Object.assign(error, { status: response.status, response, attempts: response.attempts });
+    throw error;
+  }
+
+  /**
+   * Send a request, retrying it as the retry policy allows
+   * @param apiRequest The request
+   * @param options Retry policy and timeout overrides
+   * @returns The response of the last attempt
+   * @throws ERROR_NETWORK_TIMEOUT or ERROR_NETWORK_REQUEST_FAILED if the last attempt got no response
    */
-  async delete(url: string): Promise<any> {
-    const response = await this.context.delete(url);
-    return await this.handleResponse(response);
+  private async send(apiRequest: ApiRequest, options?: ApiRequestOptions): Promise<ApiResponse> {
+    const { method, url, headers, data, params } = apiRequest;
+    const policy: RetryPolicy = options?.retry === false
+      ? { ...this.retryPolicy, retries: 0 }
+      : { ...this.retryPolicy, ...options?.retry };
+    const retryable = policy.methods.map(name => name.toUpperCase()).includes(method);
+    const timeout = options?.timeout ?? this.timeout;
+    const attempts: ApiAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const started = Date.now();
+      let response: APIResponse | undefined;
+      let failure: Error | undefined;
+      try {
+        response = await this.context.fetch(url, { method, data, params, headers, timeout });
+      } catch (error: any) {
+        failure = error instanceof Error ? error : new Error(String(error));
+      }
+
+      const record: ApiAttempt = { method, url, attempt, status: response?.status(), error: failure?.message, durationMs: Date.now() - started };
+      attempts.push(record);
+      this.attemptLog.push(record);
+
+      const retry = retryable && attempt <= policy.retries && (!response || policy.statusCodes.includes(response.status()));
+      if (response && !retry) {
+        return await this.readResponse(response, attempts);
+      }
+      if (!retry) {
+        const timedOut = failure instanceof errors.TimeoutError || /timed? ?out/i.test(failure?.message ?? '');
+        const error = ErrorReportingUtils.createError(
+          timedOut ? ErrorCode.ERROR_NETWORK_TIMEOUT : ErrorCode.ERROR_NETWORK_REQUEST_FAILED,
+          `${method} ${url} failed after ${attempts.length} attempt(s): ${failure?.message}`
+        );
+        Object.assign(error, { attempts });
+        throw error;
+      }
+
+      record.retryDelayMs = this.retryDelay(policy, attempt, response);
+      await response?.dispose();
+      await new Promise(resolve => setTimeout(resolve, record.retryDelayMs));
+    }
+  }
+
+  /**
+   * Delay before the next attempt: Retry-After when the response has one and the policy
+   * respects it, otherwise exponential backoff with jitter
+   * @param policy Retry policy of the request
+   * @param attempt Number of the attempt that failed
+   * @param response Its response, if one arrived
+   */
+  private retryDelay(policy: RetryPolicy, attempt: number, response?: APIResponse): number {
+    const retryAfter = response?.headers()['retry-after'];
+    if (policy.respectRetryAfter && retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+      if (!Number.isNaN(delay)) {
+        return Math.min(Math.max(delay, 0), policy.maxDelayMs);
+      }
+    }
+
+    const backoff = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+    return Math.round(backoff * (1 - policy.jitter * Math.random()));
+  }
+
+  /**
+   * Read a Playwright response into an ApiResponse
+   * @param response Response of the last attempt
+   * @param attempts Attempts made for the request
+   */
+  private async readResponse(response: APIResponse, attempts: ApiAttempt[]): Promise<ApiResponse> {
+    const text = await response.text().catch(() => '');
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON; keep the text
+    }
+    const result: ApiResponse = {
+      url: response.url(),
+      status: response.status(),
+      statusText: response.statusText(),
+      headers: response.headers(),
+      body,
+      text,
+      attempts
+    };
+    await response.dispose();
+    return result;
   }
 
   /**
    * Handle API response
    * @param response API response
+   * @param method HTTP method, for error reports
+   * @param url URL path, for error reports
+   * @param options Response schema to validate the body against
    */
-  private async handleResponse(response: any): Promise<any> {
-    if (!response.ok()) {
-      throw new Error(`API request failed with status ${response.status()}: ${await response.text()}`);
+  private async handleResponse(response: ApiResponse, method: string, url: string, options?: ApiRequestOptions): Promise<any> {
+    if (!options?.schema) {
+      return response.body;
     }
     
-    try {
-      return await response.json();
-    } catch (error) {
-      return await response.text();
+    // readResponse keeps the text as the body when it does not parse
+    if (typeof response.body === 'string' && response.body === response.text) {
+      return await this.failResponse(ErrorCode.ERROR_API_RESPONSE_INVALID, `${method} ${url}`, response, {
+        message: 'response body is not JSON',
+        body: response.text.length > 500 ? `${response.text.slice(0, 500)}...` : response.text
+      });
     }
+    
+    const issues = SchemaUtils.validate(options.schema, response.body);
+    if (issues.length > 0) {
+      const diff = SchemaUtils.diff(issues);
+      return await this.failResponse(ErrorCode.ERROR_API_SCHEMA_VALIDATION, `${method} ${url}`, response, {
+        message: `response body does not match the schema:\n  ${SchemaUtils.formatIssues(issues).split('\n').join('\n  ')}`,
+        diff
+      });
+    }
+    return response.body;
+  }
+
+  /**
+   * Report an unusable response and throw it as an error
+   * @param errorCode ERROR_API_RESPONSE_INVALID or ERROR_API_SCHEMA_VALIDATION
+   * @param requestLine Method and path of the request
+   * @param response The response
+   * @param details What is wrong: a message, plus the diff for schema mismatches
+   */
+  private async failResponse(
+    errorCode: typeof ErrorCode[keyof typeof ErrorCode],
+    requestLine: string,
+    response: ApiResponse,
+    details: { message: string; diff?: SchemaDiff; body?: string }
+  ): Promise<never> {
+    await new ErrorReportingUtils().reportError(errorCode, { request: requestLine, status: response.status, ...details });
+    const error = ErrorReportingUtils.createError(errorCode, `${requestLine}: ${details.message}`);
+    Object.assign(error, { diff: details.diff });
+    throw error;
   }
 
   /**
@@ -0,0 +1,260 @@
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { ErrorCode } from './ErrorConstants';
+import { ErrorReportingUtils } from './ErrorReportingUtils';
+import { SecretUtils } from './SecretUtils';
+
+/**
+ * Source of the credentials ApiUtils sends with each request
+ *
+ * ApiUtils asks the provider for headers right before a request is sent. When the
+ * response is 401 it calls refresh() and, if that renews the credentials, sends the
+ * request once more; a request still answered with 401 fails with ERROR_SESSION_EXPIRED.
+ */
+export interface AuthProvider {
+  // Kind of credentials, for logs and error reports
+  readonly name: string;
+  // Headers that authenticate a request; may obtain credentials first through the context
+  authenticate(context: APIRequestContext): Promise<Record<string, string>>;
+  // Renew the credentials after a 401; resolves to false when they cannot be renewed
+  refresh?(context: APIRequestContext): Promise<boolean>;
+}
+
+/**
+ * Bearer token, optionally renewed by a callback (e.g. logging in again)
+ */
+export class BearerAuthProvider implements AuthProvider {
+  readonly name = 'bearer';
+  private token?: string;
+
+  /**
+   * @param token Token to send; obtained from renew() on first use when omitted
+   * @param renew Returns a new token after a 401
+   */
+  constructor(token?: string, private readonly renew?: () => Promise<string>) {
+    this.setToken(token);
+  }
+
+  async authenticate(): Promise<Record<string, string>> {
+    if (!this.token && this.renew) {
+      this.setToken(await this.renew());
+    }
+    return this.token ? { 'Authorization': `Bearer ${this.token}` } : {};
+  }
+
+  /**
+   * Get a new token from renew()
+   * @throws ERROR_SESSION_EXPIRED if renew() fails, with the original error as its cause
+   */
+  async refresh(): Promise<boolean> {
+    if (!this.renew) {
+      return false;
+    }
+    try {
+      this.setToken(await this.renew());
+    } catch (error: any) {
+      const expired = ErrorReportingUtils.createError(
+        ErrorCode.ERROR_SESSION_EXPIRED,
+        `renewing the bearer token failed: ${error?.message ?? error}`
+      );
+      throw Object.assign(expired, { cause: error });
+    }
+    return true;
+  }
+
+  private setToken(token?: string): void {
+    this.token = token;
+    if (token) {
+      SecretUtils.register(token);
+    }
+  }
+}
+
+/**
+ * HTTP basic authentication
+ */
+export class BasicAuthProvider implements AuthProvider {
+  readonly name = 'basic';
+  private readonly header: string;
+
+  /**
+   * @param username User name
+   * @param password Password
+   */
+  constructor(username: string, password: string) {
+    this.header = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+    SecretUtils.register(password);
+    SecretUtils.register(this.header);
+  }
+
+  async authenticate(): Promise<Record<string, string>> {
+    return { 'Authorization': this.header };
+  }
+}
+
+/**
+ * Static API key sent in a header
+ */
+export class ApiKeyAuthProvider implements AuthProvider {
+  readonly name = 'api-key';
+
+  /**
+   * @param key API key
+   * @param header Header carrying the key
+   */
+  constructor(private readonly key: string, private readonly header: string = 'X-API-Key') {
+    SecretUtils.register(key);
+  }
+
+  async authenticate(): Promise<Record<string, string>> {
+    return { [this.header]: this.key };
+  }
+}
+
+/**
+ * Settings of an OAuth2 client-credentials grant
+ */
+export interface ClientCredentials {
+  // Token endpoint, absolute or relative to the API base URL
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+}
+
+/**
+ * OAuth2 client-credentials grant
+ * Fetches an access token on first use and again when it is about to expire or a request
+ * gets a 401. The client authenticates to the token endpoint with form parameters.
+ */
+export class OAuth2ClientCredentialsProvider implements AuthProvider {
+  readonly name = 'oauth2-client-credentials';
+  private accessToken?: string;
+  private expiresAt = 0;
+
+  // Tokens are renewed this long before they expire
+  private static readonly EXPIRY_MARGIN_MS = 30000;
+
+  /**
+   * @param credentials Token endpoint and client credentials
+   */
+  constructor(private readonly credentials: ClientCredentials) {
+    SecretUtils.register(credentials.clientSecret);
+  }
+
+  async authenticate(context: APIRequestContext): Promise<Record<string, string>> {
+    if (!this.accessToken || Date.now() >= this.expiresAt - OAuth2ClientCredentialsProvider.EXPIRY_MARGIN_MS) {
+      await this.fetchToken(context);
+    }
+    return { 'Authorization': `Bearer ${this.accessToken}` };
+  }
+
+  async refresh(context: APIRequestContext): Promise<boolean> {
+    await this.fetchToken(context);
+    return true;
+  }
+
+  /**
+   * Request a new access token
+   * @throws ERROR_AUTH_FAILED if the token endpoint refuses the client or returns no token
+   */
+  private async fetchToken(context: APIRequestContext): Promise<void> {
+    const { tokenUrl, clientId, clientSecret, scope } = this.credentials;
+    const form: Record<string, string> = { grant_type: 'client_credentials', client_id: clientId, client_secret: clientSecret };
+    if (scope) {
+      form.scope = scope;
+    }
+
+    const response = await context.post(tokenUrl, { form, headers: { 'Accept': 'application/json' } });
+    const body = await response.json().catch(() => undefined) as { access_token?: string; expires_in?: number; error?: string } | undefined;
+    if (!response.ok() || !body?.access_token) {
+      throw ErrorReportingUtils.createError(
+        ErrorCode.ERROR_AUTH_FAILED,
+        `token request for client '${clientId}' to ${tokenUrl} returned ${response.status()}${body?.error ? ` (${body.error})` : ''}`
+      );
+    }
+
+    SecretUtils.register(body.access_token);
+    this.accessToken = body.access_token;
+    // Without expires_in the token is used until a request gets a 401
+    this.expiresAt = body.expires_in ? Date.now() + body.expires_in * 1000 : Number.POSITIVE_INFINITY;
+  }
+}
+
+/**
+ * Settings of a cookie session
+ */
+export interface CookieSession {
+  // Cookies to send, e.g. a session captured from a browser
+  cookies?: Record<string, string>;
+  // Request that starts a session by setting cookies; used on first use and after a 401
+  login?: { path: string; data: unknown };
+}
+
+/**
+ * Session cookies, either given or set by a login request
+ */
+export class CookieAuthProvider implements AuthProvider {
+  readonly name = 'cookie';
+  private readonly jar: Record<string, string>;
+
+  /**
+   * @param session Cookies to start with and the login request that sets new ones
+   */
+  constructor(private readonly session: CookieSession) {
+    this.jar = { ...session.cookies };
+    Object.values(this.jar).forEach(value => SecretUtils.register(value));
+  }
+
+  /**
+   * Current session cookies, by name
+   */
+  get cookies(): Record<string, string> {
+    return { ...this.jar };
+  }
+
+  async authenticate(context: APIRequestContext): Promise<Record<string, string>> {
+    if (Object.keys(this.jar).length === 0 && this.session.login) {
+      await this.login(context);
+    }
+    const cookies = Object.entries(this.jar).map(([name, value]) => `${name}=${value}`);
+    return cookies.length > 0 ? { 'Cookie': cookies.join('; ') } : {};
+  }
+
+  async refresh(context: APIRequestContext): Promise<boolean> {
+    if (!this.session.login) {
+      return false;
+    }
+    await this.login(context);
+    return true;
+  }
+
+  /**
+   * Send the login request and keep the cookies it sets
+   * @throws ERROR_AUTH_FAILED if the login fails or sets no cookies
+   */
+  private async login(context: APIRequestContext): Promise<void> {
+    const { path, data } = this.session.login!;
+    const response = await context.post(path, { data });
+    const cookies = readSetCookies(response);
+    if (!response.ok() || Object.keys(cookies).length === 0) {
+      throw ErrorReportingUtils.createError(
+        ErrorCode.ERROR_AUTH_FAILED,
+        `session login at ${path} returned ${response.status()}${response.ok() ? ' without setting a cookie' : ''}`
+      );
+    }
+    Object.values(cookies).forEach(value => SecretUtils.register(value));
+    Object.assign(this.jar, cookies);
+  }
+}
+
+// Name and value of each Set-Cookie header of a response
+function readSetCookies(response: APIResponse): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const { name, value } of response.headersArray()) {
+    const match = name.toLowerCase() === 'set-cookie' ? /^([^=;\s]+)=([^;]*)/.exec(value) : null;
+    if (match) {
+      cookies[match[1]] = match[2];
+    }
+  }
+  return cookies;
+}
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import path from 'path';
+import { Page } from '@playwright/test';
+import CONFIG from '../config/config';
+import { getAppConfig, ROOT_DIR } from '../config/app-config';
+import { canMatchTagExpression, TagExpression } from '../config/tags';
+import { DataUtils } from './DataUtils';
+
+/**
+ * Contract for `apps/<app>/auth.ts`, the module that knows how to log a user in
+ */
+export interface AppAuthModule {
+  // Log the given user in on the page; must resolve once the user is authenticated
+  authenticate: (page: Page, user: Record<string, any>) => Promise<void>;
+  // User types from users.yaml that cannot log in (e.g. locked out users)
+  excludedRoles?: string[];
+}
+
+// Set by the main process to the roles the auth setup project logs in, comma-separated
+const SETUP_ROLES_VARIABLE = 'AUTH_SETUP_ROLES';
+
+/**
+ * Authentication Utilities for caching logged-in sessions per user role
+ *
+ * Roles are the user types declared in `apps/<app>/testdata/users.yaml`. When the app's
+ * `loginPerTest` is false, the auth setup project logs each role in once and saves its
+ * storageState; tests using `test.use({ role })` then start already authenticated.
+ */
+export class AuthUtils {
+  /**
+   * Path of the auth module for an application
+   * @param appName Application name
+   */
+  static getAuthModulePath(appName: string = CONFIG.app): string {
+    return path.join(getAppConfig(appName).basePath, 'auth.ts');
+  }
+
+  /**
+   * Whether the application provides an auth module
+   * @param appName Application name
+   */
+  static hasAuthModule(appName: string = CONFIG.app): boolean {
+    return fs.existsSync(this.getAuthModulePath(appName));
+  }
+
+  /**
+   * Load the application's auth module
+   * @param appName Application name
+   */
+  static loadAuthModule(appName: string = CONFIG.app): AppAuthModule {
+    const modulePath = this.getAuthModulePath(appName);
+    if (!fs.existsSync(modulePath)) {
+      throw new Error(`Application '${appName}' has no auth module (expected ${path.relative(process.cwd(), modulePath)})`);
+    }
+    const authModule = require(modulePath) as AppAuthModule;
+    if (typeof authModule.authenticate !== 'function') {
+      throw new Error(`Auth module for '${appName}' must export an authenticate(page, user) function`);
+    }
+    return authModule;
+  }
+
+  /**
+   * Whether cached storageState should be used instead of logging in per test
+   * @param appName Application name
+   */
+  static isSessionCacheEnabled(appName: string = CONFIG.app): boolean {
+    return !getAppConfig(appName).loginPerTest && this.hasAuthModule(appName);
+  }
+
+  /**
+   * Get the roles that can be authenticated for the current environment
+   * @param appName Application name
+   */
+  static getRoles(appName: string = CONFIG.app): string[] {
+    const users = DataUtils.loadTestData(appName, 'users', CONFIG.env);
+    const excludedRoles = this.loadAuthModule(appName).excludedRoles ?? [];
+    return Object.keys(users).filter(role => !excludedRoles.includes(role));
+  }
+
+  /**
+   * Roles that tests in the given files start as through `test.use({ role })`
+   * @param files Test files relative to the repository root
+   * @param tags Tag expression of the run; files with no test it can select are ignored
+   * @param appName Application name
+   */
+  static getUsedRoles(files: string[], tags?: TagExpression, appName: string = CONFIG.app): string[] {
+    const used = new Set<string>();
+    for (const file of files) {
+      const source = fs.readFileSync(path.resolve(ROOT_DIR, file), 'utf8');
+      if (tags && !canMatchTagExpression(tags, source.match(/@[\w-]+/g) ?? [])) {
+        continue;
+      }
+      for (const match of source.matchAll(/\brole\s*:\s*['"`]([\w-]+)['"`]/g)) {
+        used.add(match[1]);
+      }
+    }
+    return used.size > 0 ? this.getRoles(appName).filter(role => used.has(role)) : [];
+  }
+
+  /**
+   * Record the roles the auth setup project logs in
+   * Workers load the Playwright config again without the command line, so the main
+   * process's choice is passed on through the environment and kept.
+   * @param roles Roles to log in
+   */
+  static setSetupRoles(roles: string[]): void {
+    if (process.env[SETUP_ROLES_VARIABLE] === undefined) {
+      process.env[SETUP_ROLES_VARIABLE] = roles.join(',');
+    }
+  }
+
+  /**
+   * Roles the auth setup project logs in: those recorded by setSetupRoles, or every role
+   */
+  static getSetupRoles(): string[] {
+    const roles = process.env[SETUP_ROLES_VARIABLE];
+    return roles !== undefined ? roles.split(',').filter(Boolean) : this.getRoles();
+  }
+
+  /**
+   * Get the user data for a role
+   * @param role User type from users.yaml
+   * @param appName Application name
+   */
+  static getUser(role: string, appName: string = CONFIG.app): Record<string, any> {
+    const users = DataUtils.loadTestData(appName, 'users', CONFIG.env);
+    const user = users[role];
+    if (!user) {
+      throw new Error(`Unknown role '${role}' for ${appName} in ${CONFIG.env} (available: ${Object.keys(users).join(', ')})`);
+    }
+    return user;
+  }
+
+  /**
+   * Path of the cached storageState file for a role in the current environment
+   * @param role User type from users.yaml
+   */
+  static getStorageStatePath(role: string): string {
+    return path.join(CONFIG.testResultsDir, '.auth', CONFIG.env, `${role}.json`);
+  }
+
+  /**
+   * Log a role in on the given page using the application's auth module
+   * @param page Playwright Page
+   * @param role User type from users.yaml
+   */
+  static async authenticate(page: Page, role: string): Promise<void> {
+    const authModule = this.loadAuthModule();
+    await authModule.authenticate(page, this.getUser(role));
+  }
+
+  /**
+   * Log a role in and save its storageState for reuse by tests
+   * @param page Playwright Page
+   * @param role User type from users.yaml
+   * @returns Path of the saved storageState file
+   */
+  static async saveStorageState(page: Page, role: string): Promise<string> {
+    const statePath = this.getStorageStatePath(role);
+    fs.mkdirSync(path.dirname(statePath), { recursive: true });
+
+    await this.authenticate(page, role);
+    await page.context().storageState({ path: statePath });
+
+    console.log(`Saved authenticated session for ${role} to ${path.relative(process.cwd(), statePath)}`);
+    return statePath;
+  }
+}
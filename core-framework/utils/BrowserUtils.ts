@@ -1,4 +1,15 @@
-import { BrowserContext, Page } from '@playwright/test';
+import { BrowserContext, Page, request } from '@playwright/test';
+
+/**
+ * Result of probing a URL without a browser
+ */
+export interface UrlProbeResult {
+  url: string;
+  accessible: boolean;
+  status?: number;
+  latencyMs: number;
+  error?: string;
+}
 
 /**
  * Utility class for browser-related operations
@@ -82,7 +93,7 @@ export class BrowserUtils {
         waitUntil: 'domcontentloaded'
       });
       
-      return response !== null && response.status() < 400;
+      return response !== null && this.isAccessibleStatus(response.status());
     } catch (error) {
       console.error(`Failed to access URL ${url}: ${error}`);
       return false;
@@ -91,4 +102,51 @@ export class BrowserUtils {
       await page.goto('about:blank').catch(() => {});
     }
   }
+  
+  /**
+   * Checks whether a status code means the URL is accessible
+   * @param status HTTP status code
+   * @param expectedStatus Exact status required (defaults to any status below 400)
+   * @returns True if the status is acceptable
+   */
+  static isAccessibleStatus(status: number, expectedStatus?: number): boolean {
+    return expectedStatus !== undefined ? status === expectedStatus : status < 400;
+  }
+  
+  /**
+   * Checks if a URL is accessible using a plain HTTP request (no browser needed)
+   * @param url URL to check
+   * @param options Expected status and request timeout
+   * @returns Probe result with status and latency
+   */
+  static async probeUrl(
+    url: string,
+    options: { expectedStatus?: number; timeout?: number } = {}
+  ): Promise<UrlProbeResult> {
+    const context = await request.newContext();
+    const startTime = Date.now();
+    
+    try {
+      const response = await context.get(url, {
+        timeout: options.timeout ?? 10000,
+        failOnStatusCode: false
+      });
+      
+      return {
+        url,
+        accessible: this.isAccessibleStatus(response.status(), options.expectedStatus),
+        status: response.status(),
+        latencyMs: Date.now() - startTime
+      };
+    } catch (error: any) {
+      return {
+        url,
+        accessible: false,
+        latencyMs: Date.now() - startTime,
+        error: error.message.split('\n')[0]
+      };
+    } finally {
+      await context.dispose();
+    }
+  }
 }
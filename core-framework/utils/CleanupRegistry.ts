@@ -0,0 +1,91 @@
+import { ErrorCode } from './ErrorConstants';
+import { ErrorReportingUtils } from './ErrorReportingUtils';
+
+/**
+ * A teardown action registered for an entity a test created
+ */
+export interface CleanupAction {
+  // What the action removes, e.g. "delete cart mock-cart-123"
+  description: string;
+  action: () => Promise<unknown> | unknown;
+}
+
+/**
+ * A cleanup action that threw
+ */
+export interface CleanupFailure {
+  description: string;
+  error: unknown;
+}
+
+/**
+ * Teardown actions for entities created during a test or a worker
+ *
+ * Helpers that create data through an API register how to remove it right after
+ * creating it; the `cleanup` and `workerCleanup` fixtures run the actions when the test
+ * or worker ends. Actions run in reverse order of registration, so an entity is removed
+ * before the entities it was created from.
+ */
+export class CleanupRegistry {
+  private actions: CleanupAction[] = [];
+
+  /**
+   * @param scope Name of the test or worker the actions belong to, used in error reports
+   */
+  constructor(private readonly scope: string) {}
+
+  /**
+   * Register a teardown action
+   * @param description What the action removes
+   * @param action Function that removes it
+   */
+  register(description: string, action: () => Promise<unknown> | unknown): void {
+    this.actions.push({ description, action });
+  }
+
+  /**
+   * Number of actions waiting to run
+   */
+  get size(): number {
+    return this.actions.length;
+  }
+
+  /**
+   * Run every registered action, last registered first
+   * A failing action does not stop the others; each failure is reported with
+   * ERROR_CLEANUP_FAILED and returned.
+   * @returns The actions that failed
+   */
+  async run(): Promise<CleanupFailure[]> {
+    const actions = this.actions.reverse();
+    this.actions = [];
+    const failures: CleanupFailure[] = [];
+
+    for (const { description, action } of actions) {
+      try {
+        await action();
+      } catch (error) {
+        failures.push({ description, error });
+        await new ErrorReportingUtils().reportError(ErrorCode.ERROR_CLEANUP_FAILED, {
+          scope: this.scope,
+          action: description,
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    return failures;
+  }
+
+  /**
+   * Error summarising failed actions, for failing a test whose own steps passed
+   * @param failures Failures returned by run()
+   */
+  createError(failures: CleanupFailure[]): Error {
+    const lines = failures.map(({ description, error }) =>
+      `${description}: ${error instanceof Error ? error.message : String(error)}`);
+    return ErrorReportingUtils.createError(
+      ErrorCode.ERROR_CLEANUP_FAILED,
+      `${failures.length} cleanup action(s) failed for ${this.scope}\n  ${lines.join('\n  ')}`
+    );
+  }
+}
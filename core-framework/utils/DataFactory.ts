@@ -0,0 +1,330 @@
+import { DATA_LOCALES, DataLocale } from '../config/app-config';
+import { ErrorCode } from './ErrorConstants';
+import { ErrorReportingUtils } from './ErrorReportingUtils';
+
+/**
+ * Word lists and formats of one locale
+ * In formats, '#' is replaced by a digit and '?' by an upper-case letter.
+ */
+interface LocaleData {
+  firstNames: string[];
+  lastNames: string[];
+  streets: string[];
+  cities: string[];
+  country: string;
+  postalCodeFormat: string;
+  phoneFormat: string;
+  // Street line, with {number} and {street} placeholders
+  streetFormat: string;
+}
+
+const LOCALE_DATA: Record<DataLocale, LocaleData> = {
+  'en-US': {
+    firstNames: ['James', 'Mary', 'Robert', 'Patricia', 'Michael', 'Linda', 'David', 'Barbara', 'Daniel', 'Susan', 'Kevin', 'Karen'],
+    lastNames: ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Wilson', 'Taylor', 'Clark', 'Lewis'],
+    streets: ['Main Street', 'Oak Avenue', 'Maple Drive', 'Cedar Lane', 'Pine Street', 'Elm Court', 'Park Avenue', 'Lake Road'],
+    cities: ['Springfield', 'Riverside', 'Franklin', 'Greenville', 'Fairview', 'Madison', 'Georgetown', 'Salem'],
+    country: 'United States',
+    postalCodeFormat: '#####',
+    phoneFormat: '(555) ###-####',
+    streetFormat: '{number} {street}'
+  },
+  'en-GB': {
+    firstNames: ['Oliver', 'Amelia', 'George', 'Isla', 'Harry', 'Ava', 'Jack', 'Emily', 'Charlie', 'Sophie', 'Thomas', 'Grace'],
+    lastNames: ['Smith', 'Jones', 'Taylor', 'Brown', 'Evans', 'Walker', 'Wright', 'Thompson', 'Roberts', 'Hughes', 'Edwards', 'Green'],
+    streets: ['High Street', 'Station Road', 'Church Lane', 'Victoria Road', 'Mill Lane', 'Queens Road', 'Park Road', 'Kings Road'],
+    cities: ['London', 'Manchester', 'Leeds', 'Bristol', 'Norwich', 'York', 'Bath', 'Oxford'],
+    country: 'United Kingdom',
+    postalCodeFormat: '??# #??',
+    phoneFormat: '07### ######',
+    streetFormat: '{number} {street}'
+  },
+  'de-DE': {
+    firstNames: ['Lukas', 'Anna', 'Jonas', 'Lea', 'Felix', 'Hannah', 'Paul', 'Mia', 'Jürgen', 'Käthe', 'Maximilian', 'Sophie'],
+    lastNames: ['Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weber', 'Meyer', 'Wagner', 'Becker', 'Schulz', 'Hoffmann', 'Koch', 'Richter'],
+    streets: ['Hauptstraße', 'Schulstraße', 'Gartenstraße', 'Bahnhofstraße', 'Dorfstraße', 'Bergstraße', 'Lindenstraße', 'Birkenweg'],
+    cities: ['Berlin', 'Hamburg', 'München', 'Köln', 'Leipzig', 'Dresden', 'Bremen', 'Düsseldorf'],
+    country: 'Deutschland',
+    postalCodeFormat: '#####',
+    phoneFormat: '+49 15# #######',
+    streetFormat: '{street} {number}'
+  },
+  'fr-FR': {
+    firstNames: ['Gabriel', 'Louise', 'Léo', 'Jade', 'Raphaël', 'Emma', 'Arthur', 'Chloé', 'Hugo', 'Inès', 'Jules', 'Léa'],
+    lastNames: ['Martin', 'Bernard', 'Dubois', 'Thomas', 'Robert', 'Richard', 'Petit', 'Durand', 'Leroy', 'Moreau', 'Simon', 'Lefèvre'],
+    streets: ['rue de la Paix', 'avenue Victor Hugo', 'rue Pasteur', 'boulevard Voltaire', 'rue du Moulin', 'place de la République', 'rue des Écoles', 'chemin des Vignes'],
+    cities: ['Paris', 'Lyon', 'Marseille', 'Toulouse', 'Nantes', 'Lille', 'Bordeaux', 'Rennes'],
+    country: 'France',
+    postalCodeFormat: '#####',
+    phoneFormat: '06 ## ## ## ##',
+    streetFormat: '{number} {street}'
+  }
+};
+
+/**
+ * Deterministic pseudo-random number generator (mulberry32)
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer in [min, max]
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Random item of a list
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  /**
+   * Derive a 32-bit seed from a run seed and any number of keys (FNV-1a)
+   * @param parts Run seed followed by keys such as the test title and retry
+   */
+  static deriveSeed(...parts: (string | number)[]): number {
+    let hash = 0x811C9DC5;
+    for (const char of parts.join('\u0000')) {
+      hash ^= char.codePointAt(0)!;
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+export interface DataFactoryOptions {
+  // Seed of the generated values; the same seed yields the same values
+  seed: number;
+  // Playwright worker index, embedded in unique values so parallel workers never collide
+  workerIndex?: number;
+  locale?: DataLocale;
+}
+
+/**
+ * Seeded factory for generated test data
+ *
+ * Every value comes from a pseudo-random sequence seeded from the run seed (CONFIG.seed,
+ * printed at the start of a run and set with SEED or --seed), so a failing test gets the
+ * same names, addresses and numbers when it is rerun with that seed. Unique values
+ * (ids, usernames, emails) also carry the worker index and a per-factory sequence number,
+ * which keeps them distinct across parallel workers.
+ */
+export class DataFactory {
+  readonly seed: number;
+  readonly workerIndex: number;
+  readonly locale: DataLocale;
+  private readonly random: SeededRandom;
+  private readonly localeData: LocaleData;
+  private sequence = 0;
+
+  constructor(options: DataFactoryOptions) {
+    const locale = options.locale ?? 'en-US';
+    if (!DATA_LOCALES.includes(locale)) {
+      throw ErrorReportingUtils.createError(
+        ErrorCode.ERROR_CONFIG_INVALID,
+        `unsupported data locale '${locale}' (supported: ${DATA_LOCALES.join(', ')})`
+      );
+    }
+    this.seed = options.seed >>> 0;
+    this.workerIndex = options.workerIndex ?? 0;
+    this.locale = locale;
+    this.random = new SeededRandom(this.seed);
+    this.localeData = LOCALE_DATA[locale];
+  }
+
+  /**
+   * Integer in [min, max]
+   */
+  int(min: number, max: number): number {
+    return this.random.int(min, max);
+  }
+
+  /**
+   * Random item of a list
+   */
+  pick<T>(items: readonly T[]): T {
+    return this.random.pick(items);
+  }
+
+  /**
+   * Fill a format: '#' becomes a digit, '?' an upper-case letter, anything else is kept
+   * @param format Format such as '(555) ###-####'
+   */
+  fromFormat(format: string): string {
+    return format.replace(/[#?]/g, char => char === '#'
+      ? String(this.int(0, 9))
+      : String.fromCharCode(65 + this.int(0, 25)));
+  }
+
+  /**
+   * Token for unique values: seed-derived characters, the worker index and a sequence number
+   */
+  uniqueToken(): string {
+    this.sequence++;
+    const random = this.int(0, 36 ** 4 - 1).toString(36).padStart(4, '0');
+    return `${random}w${this.workerIndex}n${this.sequence}`;
+  }
+
+  /**
+   * Unique identifier, e.g. 'order-k3f9w2n1'
+   * @param prefix Identifier prefix
+   */
+  uniqueId(prefix: string = 'id'): string {
+    return `${prefix}-${this.uniqueToken()}`;
+  }
+
+  firstName(): string {
+    return this.pick(this.localeData.firstNames);
+  }
+
+  lastName(): string {
+    return this.pick(this.localeData.lastNames);
+  }
+
+  fullName(): string {
+    return `${this.firstName()} ${this.lastName()}`;
+  }
+
+  /**
+   * Unique username made of ASCII letters, digits and underscores
+   */
+  username(): string {
+    return `${DataFactory.toAscii(this.firstName())}_${this.uniqueToken()}`.toLowerCase();
+  }
+
+  /**
+   * Unique email address on the reserved example.test domain
+   * @param firstName First name to base the address on (random by default)
+   * @param lastName Last name to base the address on (random by default)
+   */
+  email(firstName: string = this.firstName(), lastName: string = this.lastName()): string {
+    const name = `${DataFactory.toAscii(firstName)}.${DataFactory.toAscii(lastName)}`;
+    return `${name}.${this.uniqueToken()}@example.test`.toLowerCase();
+  }
+
+  /**
+   * Password with upper- and lower-case letters, digits and a symbol
+   * @param length Total length (at least 8)
+   */
+  password(length: number = 12): string {
+    const alphabet = 'abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    const body = Array.from({ length: Math.max(length, 8) - 4 }, () => this.pick([...alphabet])).join('');
+    return `${body}${this.fromFormat('?')}${this.fromFormat('?').toLowerCase()}${this.int(0, 9)}${this.pick(['!', '#', '$', '%', '&', '*'])}`;
+  }
+
+  phone(): string {
+    return this.fromFormat(this.localeData.phoneFormat);
+  }
+
+  postalCode(): string {
+    return this.fromFormat(this.localeData.postalCodeFormat);
+  }
+
+  street(): string {
+    return this.localeData.streetFormat
+      .replace('{number}', String(this.int(1, 250)))
+      .replace('{street}', this.pick(this.localeData.streets));
+  }
+
+  city(): string {
+    return this.pick(this.localeData.cities);
+  }
+
+  country(): string {
+    return this.localeData.country;
+  }
+
+  /**
+   * Strip accents and non-alphanumeric characters, for usernames and email addresses
+   */
+  private static toAscii(text: string): string {
+    return text.normalize('NFD').replace(/ß/g, 'ss').replace(/[^A-Za-z0-9]/g, '');
+  }
+}
+
+/**
+ * Composable builder of a domain object
+ *
+ * A builder turns a DataFactory into a value; `with` returns a new builder with some
+ * fields fixed or derived, and builders can use each other inside their create function.
+ *
+ * @example
+ *   const address = addressBuilder.with({ city: 'Springfield' }).build(dataFactory);
+ */
+export class Builder<T> {
+  constructor(private readonly create: (factory: DataFactory) => T) {}
+
+  /**
+   * New builder with overridden fields
+   * @param overrides Fixed values, or a function computing them from the built value
+   */
+  with(overrides: Partial<T> | ((value: T, factory: DataFactory) => Partial<T>)): Builder<T> {
+    return new Builder<T>(factory => {
+      const value = this.create(factory);
+      return { ...value, ...(typeof overrides === 'function' ? overrides(value, factory) : overrides) };
+    });
+  }
+
+  /**
+   * Build one value
+   * @param factory Data factory (use the dataFactory fixture in tests)
+   * @param overrides Fixed values for this value only
+   */
+  build(factory: DataFactory, overrides: Partial<T> = {}): T {
+    return { ...this.create(factory), ...overrides };
+  }
+
+  /**
+   * Build several values
+   * @param factory Data factory
+   * @param count Number of values
+   */
+  buildMany(factory: DataFactory, count: number): T[] {
+    return Array.from({ length: count }, () => this.build(factory));
+  }
+}
+
+export interface Address {
+  street: string;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+export interface Person {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+}
+
+export const addressBuilder = new Builder<Address>(factory => ({
+  street: factory.street(),
+  city: factory.city(),
+  postalCode: factory.postalCode(),
+  country: factory.country()
+}));
+
+export const personBuilder = new Builder<Person>(factory => {
+  const firstName = factory.firstName();
+  const lastName = factory.lastName();
+  return { firstName, lastName, email: factory.email(firstName, lastName), phone: factory.phone() };
+});
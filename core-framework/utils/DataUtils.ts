@@ -2,34 +2,137 @@ import fs from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
 import CONFIG from '../config/config';
+import { ErrorCode } from './ErrorConstants';
+import { ErrorReportingUtils } from './ErrorReportingUtils';
+import { SecretUtils } from './SecretUtils';
+import { JsonSchema, SchemaIssue, SchemaUtils } from './SchemaUtils';
+import { DataFactory, SeededRandom } from './DataFactory';
+
+// `password: !secret SAUCE_QA_PASSWORD` is shorthand for `password: ${secret:SAUCE_QA_PASSWORD}`
+const SECRET_TAG = new yaml.Type('!secret', {
+  kind: 'scalar',
+  construct: (name: string) => `\${secret:${name}}`
+});
+
+const TEST_DATA_SCHEMA = yaml.DEFAULT_SCHEMA.extend([SECRET_TAG]);
+
+// Test data format version; version 1 was the undeclared per-environment layout
+export const TEST_DATA_SCHEMA_VERSION = 2;
+
+// Supported test data file suffixes, in order of precedence when a name has several sources
+export const TEST_DATA_EXTENSIONS = ['.yaml', '.yml', '.json', '.csv', '.data.ts'];
+
+/**
+ * Test data file reference that carries the type of its data, see DataUtils.dataFile
+ */
+export interface TestDataFile<T> {
+  fileName: string;
+  // Type marker only, never set
+  readonly dataType?: T;
+}
 
 /**
  * Data Utilities for loading and managing test data
+ *
+ * Test data is loaded by logical name: 'users' is read from users.yaml, users.yml,
+ * users.json, users.csv or users.data.ts in apps/<app>/testdata, whichever exists first
+ * in that order. YAML files hold a document in the layout below; JSON files and TypeScript
+ * modules (default export) may too, or hold plain data that is the same in every environment.
+ * A CSV file is a table whose rows become an array of objects, also the same in every
+ * environment (unquoted numbers and true/false are converted).
+ *
+ * Test data documents declare `schemaVersion: 2` and hold a `default` section plus optional
+ * partial overrides per environment, which are deep-merged over the defaults:
+ *
+ *   schemaVersion: 2
+ *   default:
+ *     standardUser: { username: standard_user, firstName: John }
+ *   environments:
+ *     qa:
+ *       standardUser: { firstName: Jane }
+ *
+ * Objects are merged key by key; arrays and scalars in an override replace the default.
+ * Any object of the form `{ $ref: 'file.yaml#/json/pointer' }` is replaced by the
+ * referenced value from a file in the same testdata folder (`#/pointer` refers to the
+ * current file); other keys next to `$ref` are merged over the referenced value.
+ *
+ * A file can declare a JSON Schema with `schema: schemas/users.schema.json` (relative to the
+ * testdata folder). The merged data for the requested environment is validated against it,
+ * so a typo fails the load with the exact path instead of surfacing as `undefined` in a test.
  */
 export class DataUtils {
+  // Parsed testdata files, keyed by absolute path
+  private static fileCache: Record<string, any> = {};
+  // Preferred sources already warned about having duplicates
+  private static reportedDuplicates = new Set<string>();
+  // Factory behind the deprecated generateTestData
+  private static defaultFactory: DataFactory | undefined;
+  
   /**
-   * Load YAML test data file
+   * Load test data by logical name
+   * Secret placeholders (`${secret:NAME}` or `!secret NAME`) are resolved with SecretUtils
+   * when the value is first read, and the resolved values are redacted from reports.
+   * Placeholders are validated as the strings they are, before resolution.
    * @param appName Application name
-   * @param fileName File name without extension
-   * @param env Environment to filter data for (optional)
-   * @returns Parsed test data
+   * @param fileName Logical name, i.e. the file name without extension
+   * @param env Environment to load data for (defaults to CONFIG.env)
+   * @returns Default data merged with the environment's overrides
+   * @throws ERROR_MISSING_DATA if there is no source for the name
+   * @throws ERROR_DATA_FORMAT if the data does not match the file's schema
+   * @throws ERROR_ENV_DATA_NOT_FOUND if required data is only provided for other environments
+   */
+  static loadTestData<T = any>(appName: string, fileName: string, env?: string): T {
+    const sources = this.findDataSources(appName, fileName);
+    if (sources.length === 0) {
+      throw ErrorReportingUtils.createError(
+        ErrorCode.ERROR_MISSING_DATA,
+        `no test data named '${fileName}' in ${this.getTestDataDir(appName)} ` +
+        `(looked for ${TEST_DATA_EXTENSIONS.map(extension => fileName + extension).join(', ')})`
+      );
+    }
+    if (sources.length > 1 && !this.reportedDuplicates.has(sources[0])) {
+      this.reportedDuplicates.add(sources[0]);
+      console.warn(
+        `Test data '${fileName}' has several sources (${sources.map(source => path.basename(source)).join(', ')}); ` +
+        `using ${path.basename(sources[0])}. Run 'npm run data:check' to compare them.`
+      );
+    }
+    return this.loadDataSource<T>(sources[0], env);
+  }
+  
+  /**
+   * Load one test data file for an environment
+   * @param filePath Absolute path of the file
+   * @param env Environment to load data for (defaults to CONFIG.env)
+   * @param raw Skip schema validation and keep secret placeholders unresolved (for comparing sources)
+   * @returns Default data merged with the environment's overrides
    */
-  static loadTestData(appName: string, fileName: string, env?: string): any {
-    const appConfig = CONFIG.app;
+  static loadDataSource<T = any>(filePath: string, env?: string, raw: boolean = false): T {
     const environment = env || CONFIG.env;
-    const filePath = path.join('apps', appName, 'testdata', `${fileName}.yaml`);
     
     try {
-      // Read the YAML file
-      const fileContent = fs.readFileSync(filePath, 'utf8');
-      const data = yaml.load(fileContent) as any;
+      const parsed = this.resolveRefs(this.readDataFile(filePath), filePath, []);
+      const document = this.isPlainData(parsed, filePath) ? { schemaVersion: TEST_DATA_SCHEMA_VERSION, default: parsed } : parsed;
+      
+      if (document?.schemaVersion !== TEST_DATA_SCHEMA_VERSION) {
+        throw ErrorReportingUtils.createError(
+          ErrorCode.ERROR_DATA_FORMAT,
+          `${filePath} declares schemaVersion ${JSON.stringify(document?.schemaVersion)}, expected ${TEST_DATA_SCHEMA_VERSION} ` +
+          `(a 'default' section plus optional 'environments' overrides)`
+        );
+      }
       
-      // If environment is specified, filter data for that environment
-      if (environment && data) {
-        return this.filterDataByEnvironment(data, environment);
+      const overrides = document.environments?.[environment];
+      const data = overrides === undefined ? document.default : this.deepMerge(document.default, overrides);
+      
+      if (raw) {
+        return data;
+      }
+      if (document.schema) {
+        this.validateData(data, document, filePath, environment);
       }
       
-      return data;
+      return SecretUtils.defineSecretProperties(data);
     } catch (error) {
       console.error(`Error loading test data from ${filePath}: ${error.message}`);
       throw error;
@@ -37,114 +140,303 @@ export class DataUtils {
   }
   
   /**
-   * Filter test data by environment
-   * @param data Test data object
-   * @param env Environment to filter for
-   * @returns Filtered test data
+   * Whether a parsed source is plain data rather than a layered document
+   * CSV tables always are; JSON files and TypeScript modules are when they declare no schemaVersion.
+   * YAML files must declare it, so files still in the old per-environment layout are caught.
+   * @param parsed Parsed file
+   * @param filePath Absolute path of the file
+   */
+  private static isPlainData(parsed: any, filePath: string): boolean {
+    if (filePath.endsWith('.csv')) {
+      return true;
+    }
+    const structured = /\.ya?ml$/.test(filePath);
+    return !structured && !(typeof parsed === 'object' && parsed !== null && 'schemaVersion' in parsed);
+  }
+  
+  /**
+   * Folder holding an application's test data
+   * @param appName Application name
+   */
+  static getTestDataDir(appName: string): string {
+    return path.resolve('apps', appName, 'testdata');
+  }
+  
+  /**
+   * Files that provide a logical test data name, in order of precedence
+   * @param appName Application name
+   * @param fileName Logical name
+   * @returns Absolute paths of the existing sources
+   */
+  static findDataSources(appName: string, fileName: string): string[] {
+    return TEST_DATA_EXTENSIONS
+      .map(extension => path.join(this.getTestDataDir(appName), fileName + extension))
+      .filter(filePath => fs.existsSync(filePath));
+  }
+  
+  /**
+   * All test data sources of an application, grouped by logical name
+   * @param appName Application name
+   * @returns Logical name -> absolute paths of its sources, in order of precedence
+   */
+  static listDataSources(appName: string): Map<string, string[]> {
+    const dataDir = this.getTestDataDir(appName);
+    const names = new Set<string>();
+    if (fs.existsSync(dataDir)) {
+      for (const file of fs.readdirSync(dataDir)) {
+        const extension = TEST_DATA_EXTENSIONS.find(candidate => file.endsWith(candidate));
+        if (extension) {
+          names.add(file.slice(0, -extension.length));
+        }
+      }
+    }
+    return new Map([...names].sort().map(name => [name, this.findDataSources(appName, name)]));
+  }
+  
+  /**
+   * Reference a test data file together with the type of its data, for typed data fixtures
+   * @param fileName File name without extension
+   * @example createAppTest({ ..., data: { userData: DataUtils.dataFile<SauceUsers>('users') } })
+   */
+  static dataFile<T>(fileName: string): TestDataFile<T> {
+    return { fileName };
+  }
+  
+  /**
+   * Validate merged test data against the schema the file declares
+   * @param data Data merged for the environment
+   * @param document Parsed test data file
+   * @param filePath Absolute path of the file
+   * @param environment Environment the data was merged for
    */
-  private static filterDataByEnvironment(data: any, env: string): any {
-    if (typeof data !== 'object' || data === null) {
-      return data;
+  private static validateData(data: any, document: any, filePath: string, environment: string): void {
+    const schemaPath = path.resolve(path.dirname(filePath), document.schema);
+    const issues = SchemaUtils.validate(this.readDataFile(schemaPath) as JsonSchema, data);
+    if (issues.length === 0) {
+      return;
     }
     
-    // Check if this is the new structure (user type -> environment -> details)
-    // or the old structure (environment -> user type -> details)
-    const isNewStructure = this.isNewDataStructure(data);
+    // A required value that only other environments override is missing environment data, not a typo
+    const otherEnvironments = Object.keys(document.environments ?? {}).filter(name => name !== environment);
+    const providedBy = (issue: SchemaIssue) => issue.keyword === 'required'
+      ? otherEnvironments.filter(name => this.getPath(document.environments[name], issue.path) !== undefined)
+      : [];
+    const envIssues = issues.filter(issue => providedBy(issue).length > 0);
     
-    if (isNewStructure) {
-      // New structure: userType.environment.details
-      const result: any = {};
-      
-      // For each user type
-      for (const userType in data) {
-        if (Object.prototype.hasOwnProperty.call(data, userType)) {
-          const userTypeData = data[userType];
-          
-          // Check if this user type has data for the specified environment
-          if (userTypeData && userTypeData[env]) {
-            result[userType] = userTypeData[env];
-          }
-        }
+    const details = issues.map(issue => {
+      const others = providedBy(issue);
+      const hint = others.length > 0 ? ` (only set for ${others.join(', ')})` : '';
+      return `  ${issue.path || '(root)'}: ${issue.message}${hint}`;
+    });
+    throw ErrorReportingUtils.createError(
+      envIssues.length === issues.length ? ErrorCode.ERROR_ENV_DATA_NOT_FOUND : ErrorCode.ERROR_DATA_FORMAT,
+      `${filePath} does not match ${schemaPath} for environment '${environment}':\n${details.join('\n')}`
+    );
+  }
+  
+  /**
+   * Read a value by a SchemaUtils path such as 'products[2].price'
+   * @param value Root value
+   * @param dataPath Path to read
+   */
+  private static getPath(value: any, dataPath: string): any {
+    const segments: string[] = dataPath.match(/[^.[\]]+/g) ?? [];
+    return segments.reduce((node: any, segment) => node?.[segment], value);
+  }
+  
+  /**
+   * Read and parse a testdata file (cached; callers get their own copy through resolveRefs/deepMerge)
+   * @param filePath Absolute path of the file
+   */
+  private static readDataFile(filePath: string): any {
+    if (!(filePath in this.fileCache)) {
+      if (!fs.existsSync(filePath)) {
+        throw ErrorReportingUtils.createError(ErrorCode.ERROR_MISSING_DATA, `test data file not found: ${filePath}`);
       }
-      
-      return result;
-    } else {
-      // Old structure: environment.userType.details
-      // If data has environment-specific properties
-      if (data[env]) {
-        return data[env];
+      if (filePath.endsWith('.ts')) {
+        const module = require(filePath);
+        this.fileCache[filePath] = module.default ?? module;
+      } else if (filePath.endsWith('.csv')) {
+        this.fileCache[filePath] = this.parseCsv(fs.readFileSync(filePath, 'utf8'), filePath);
+      } else {
+        // JSON is valid YAML, so both go through the YAML parser
+        this.fileCache[filePath] = yaml.load(fs.readFileSync(filePath, 'utf8'), { schema: TEST_DATA_SCHEMA });
       }
-      
-      // Process nested objects
-      const result: any = Array.isArray(data) ? [] : {};
-      
-      for (const key in data) {
-        if (Object.prototype.hasOwnProperty.call(data, key)) {
-          const value = data[key];
-          
-          if (typeof value === 'object' && value !== null) {
-            // If the object has an 'env' property matching our target environment
-            if (value.env === env) {
-              result[key] = value;
-            } else if (value.env === undefined) {
-              // Recursively process nested objects without env property
-              result[key] = this.filterDataByEnvironment(value, env);
-            }
-          } else {
-            result[key] = value;
-          }
+    }
+    return this.fileCache[filePath];
+  }
+  
+  /**
+   * Parse a CSV table with a header row into an array of objects
+   * Fields may be quoted ("a, b" and "say ""hi"""); unquoted numbers and true/false are converted.
+   * @param content CSV text
+   * @param filePath File the text comes from, for error messages
+   */
+  private static parseCsv(content: string, filePath: string): Record<string, unknown>[] {
+    const rows: { value: unknown; quoted: boolean }[][] = [];
+    let row: { value: unknown; quoted: boolean }[] = [];
+    let field = '';
+    let quoted = false;
+    let inQuotes = false;
+    
+    const endField = () => {
+      const value = quoted ? field : field.trim();
+      row.push({ value, quoted });
+      field = '';
+      quoted = false;
+    };
+    
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
         }
+      } else if (char === '"') {
+        inQuotes = quoted = true;
+      } else if (char === ',') {
+        endField();
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        endField();
+        rows.push(row);
+        row = [];
+      } else {
+        field += char;
       }
-      
-      return result;
     }
+    if (inQuotes) {
+      throw ErrorReportingUtils.createError(ErrorCode.ERROR_DATA_FORMAT, `unterminated quoted field in ${filePath}`);
+    }
+    if (field !== '' || row.length > 0) {
+      endField();
+      rows.push(row);
+    }
+    
+    const [header, ...records] = rows.filter(cells => cells.some(cell => cell.quoted || cell.value !== ''));
+    if (!header) {
+      return [];
+    }
+    const columns = header.map(cell => String(cell.value));
+    return records.map((cells, index) => {
+      if (cells.length !== columns.length) {
+        throw ErrorReportingUtils.createError(
+          ErrorCode.ERROR_DATA_FORMAT,
+          `${filePath} row ${index + 2} has ${cells.length} fields, expected ${columns.length} (${columns.join(', ')})`
+        );
+      }
+      return Object.fromEntries(columns.map((column, i) => [column, cells[i].quoted ? cells[i].value : this.parseCsvValue(String(cells[i].value))]));
+    });
+  }
+  
+  /**
+   * Convert an unquoted CSV field to a number or boolean where it is one
+   * @param value Field text
+   */
+  private static parseCsvValue(value: string): unknown {
+    if (/^-?\d+(\.\d+)?$/.test(value)) {
+      return Number(value);
+    }
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+    return value;
   }
   
   /**
-   * Determine if the data follows the new structure (userType.environment.details)
-   * @param data Test data object
-   * @returns boolean indicating if it's the new structure
+   * Replace every `$ref` object with the value it points to
+   * @param node Value to resolve
+   * @param filePath File the value comes from (relative refs are resolved against its folder)
+   * @param stack Refs being resolved, to detect cycles
+   * @returns Resolved copy of the value
    */
-  private static isNewDataStructure(data: any): boolean {
-    if (typeof data !== 'object' || data === null) {
-      return false;
+  private static resolveRefs(node: any, filePath: string, stack: string[]): any {
+    if (Array.isArray(node)) {
+      return node.map(item => this.resolveRefs(item, filePath, stack));
+    }
+    if (typeof node !== 'object' || node === null) {
+      return node;
+    }
+    
+    if (typeof node.$ref !== 'string') {
+      return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, this.resolveRefs(value, filePath, stack)]));
     }
     
-    // Check first key in the data
-    const firstKey = Object.keys(data)[0];
-    if (!firstKey) return false;
+    const { $ref, ...siblings } = node;
+    const [refFile, pointer = ''] = $ref.split('#');
+    const targetPath = refFile ? path.resolve(path.dirname(filePath), refFile) : filePath;
+    const refId = `${targetPath}#${pointer}`;
+    if (stack.includes(refId)) {
+      throw ErrorReportingUtils.createError(ErrorCode.ERROR_DATA_FORMAT, `circular $ref '${$ref}' in ${filePath}`);
+    }
     
-    const firstValue = data[firstKey];
+    let target = this.readDataFile(targetPath);
+    for (const segment of pointer.split('/').filter(Boolean)) {
+      const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+      if (typeof target !== 'object' || target === null || !(key in target)) {
+        throw ErrorReportingUtils.createError(ErrorCode.ERROR_DATA_FORMAT, `$ref '${$ref}' in ${filePath} does not resolve (no '${key}')`);
+      }
+      target = target[key];
+    }
     
-    // In the new structure, the first level is user types and the second level is environments
-    // So we check if the first value is an object and if it has qa/staging/prod keys
-    return (
-      typeof firstValue === 'object' &&
-      firstValue !== null &&
-      (firstValue.qa !== undefined || firstValue.staging !== undefined || firstValue.prod !== undefined)
-    );
+    const resolved = this.resolveRefs(target, targetPath, [...stack, refId]);
+    return Object.keys(siblings).length > 0
+      ? this.deepMerge(resolved, this.resolveRefs(siblings, filePath, stack))
+      : resolved;
+  }
+  
+  /**
+   * Deep-merge an override into a base value
+   * Objects are merged key by key; anything else in the override replaces the base.
+   * @param base Base value
+   * @param override Partial override
+   * @returns Merged copy
+   */
+  private static deepMerge(base: any, override: any): any {
+    const isObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value);
+    if (!isObject(base) || !isObject(override)) {
+      return override;
+    }
+    
+    const result: any = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+      result[key] = key in base ? this.deepMerge(base[key], value) : value;
+    }
+    return result;
   }
   
   /**
    * Generate random test data
+   * @deprecated Use the dataFactory fixture or a DataFactory, which also builds domain objects
    * @param type Type of data to generate
    * @param options Options for data generation
    * @returns Generated test data
    */
   static generateTestData(type: 'email' | 'username' | 'password' | 'phone' | 'name', options?: any): string {
-    const timestamp = Date.now();
+    const factory = this.defaultFactory ??= new DataFactory({
+      seed: SeededRandom.deriveSeed(CONFIG.seed, 'DataUtils.generateTestData'),
+      workerIndex: Number(process.env.TEST_WORKER_INDEX ?? 0),
+      locale: CONFIG.dataLocale
+    });
     
     switch (type) {
       case 'email':
-        return `test.user.${timestamp}@example.com`;
+        return factory.email();
       case 'username':
-        return `testuser${timestamp}`;
+        return factory.username();
       case 'password':
-        return `Password${timestamp}!`;
+        return factory.password();
       case 'phone':
-        return `555${Math.floor(1000000 + Math.random() * 9000000)}`;
+        return factory.phone();
       case 'name':
-        return `Test User ${timestamp}`;
+        return factory.fullName();
       default:
         throw new Error(`Unsupported test data type: ${type}`);
     }
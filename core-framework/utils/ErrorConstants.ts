@@ -97,6 +97,8 @@ export const ErrorCode = {
   // Framework or configuration errors (10000-10999)
   ERROR_CONFIG_INVALID: { code: 10001, category: ErrorCategory.FRAMEWORK, message: 'Invalid framework configuration', title: 'Invalid Configuration' },
   ERROR_DEPENDENCY_MISSING: { code: 10002, category: ErrorCategory.FRAMEWORK, message: 'Required dependency is missing', title: 'Missing Dependency' },
+  ERROR_PRODUCTION_GUARD: { code: 10003, category: ErrorCategory.FRAMEWORK, message: 'Operation blocked against a production environment', title: 'Blocked in Production' },
+  ERROR_CLEANUP_FAILED: { code: 10004, category: ErrorCategory.FRAMEWORK, message: 'Test cleanup action failed', title: 'Cleanup Failed' },
   
   // Unknown or uncategorized errors (99000-99999)
   ERROR_UNKNOWN: { code: 99999, category: ErrorCategory.UNKNOWN, message: 'Unknown error occurred', title: 'Unknown Error' }
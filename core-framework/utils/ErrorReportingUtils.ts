@@ -2,6 +2,7 @@ import { Page } from '@playwright/test';
 import path from 'path';
 import fs from 'fs';
 import { ErrorCategory, ErrorCode, ErrorDetails } from './ErrorConstants';
+import { SecretUtils } from './SecretUtils';
 import CONFIG from '../config/config';
 
 /**
@@ -12,15 +13,15 @@ import CONFIG from '../config/config';
  * to facilitate AI-powered test maintenance and analysis.
  */
 export class ErrorReportingUtils {
-  private page: Page;
+  private page?: Page;
   private errorLogPath: string;
   private screenshotPath: string;
   
   /**
    * Constructor for ErrorReportingUtils
-   * @param page Playwright page object
+   * @param page Playwright page object; without one, errors are reported without a screenshot
    */
-  constructor(page: Page) {
+  constructor(page?: Page) {
     this.page = page;
     this.errorLogPath = path.join(CONFIG.testResultsDir, 'error-logs');
     this.screenshotPath = path.join(CONFIG.testResultsDir, 'error-screenshots');
@@ -44,6 +45,8 @@ export class ErrorReportingUtils {
   ): Promise<ErrorDetails> {
     const timestamp = new Date().toISOString();
     const location = await this.getCurrentPageInfo();
+    // Never write credentials resolved from test data secrets to the console or the logs
+    const details = SecretUtils.redactValue(additionalDetails);
     const screenshotFileName = screenshotName || 
       `${errorCode.category}_${errorCode.code}_${timestamp.replace(/[:.]/g, '-')}.png`;
     const screenshotPath = path.join(this.screenshotPath, screenshotFileName);
@@ -65,7 +68,7 @@ export class ErrorReportingUtils {
       category: errorCode.category,
       message: errorCode.message,
       title: errorCode.title,
-      details: additionalDetails,
+      details,
       location,
       screenshot: screenshotRelativePath,
       timestamp
@@ -73,7 +76,7 @@ export class ErrorReportingUtils {
     
     // Log error to console
     console.error(`[ERROR ${errorCode.code}] ${errorCode.title} (${errorCode.category}): ${errorCode.message}`, 
-      additionalDetails ? `\nDetails: ${JSON.stringify(additionalDetails)}` : '');
+      details ? `\nDetails: ${JSON.stringify(details)}` : '');
     
     // Write error to log file
     await this.logErrorToFile(errorDetails);
@@ -90,9 +93,23 @@ export class ErrorReportingUtils {
   createError(
     errorCode: typeof ErrorCode[keyof typeof ErrorCode],
     additionalMessage?: string
+  ): Error {
+    return ErrorReportingUtils.createError(errorCode, additionalMessage);
+  }
+  
+  /**
+   * Create a custom error with a specific error code, without a page
+   * (for global setup, fixtures and other code that runs outside a test page)
+   * @param errorCode Predefined error code from ErrorConstants
+   * @param additionalMessage Additional error message
+   * @returns Error object with enhanced properties
+   */
+  static createError(
+    errorCode: typeof ErrorCode[keyof typeof ErrorCode],
+    additionalMessage?: string
   ): Error {
     const message = additionalMessage 
-      ? `[ERROR ${errorCode.code}] ${errorCode.title}: ${errorCode.message}: ${additionalMessage}`
+      ? `[ERROR ${errorCode.code}] ${errorCode.title}: ${errorCode.message}: ${SecretUtils.redact(additionalMessage)}`
       : `[ERROR ${errorCode.code}] ${errorCode.title}: ${errorCode.message}`;
     
     const error = new Error(message);
@@ -240,6 +257,9 @@ export class ErrorReportingUtils {
    * @returns String with current URL and title
    */
   private async getCurrentPageInfo(): Promise<string> {
+    if (!this.page) {
+      return 'No page';
+    }
     try {
       const url = this.page.url();
       const title = await this.page.title().catch(() => 'Unknown');
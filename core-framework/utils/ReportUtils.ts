@@ -71,25 +71,25 @@ export class ReportUtils {
       }
     };
     
-    // Save test result to file
+    // Save test result to file (the title path starts with the spec file path, so strip path separators)
     const resultPath = path.join(
       testResultsDir, 
-      `${testInfo.titlePath.join('-')}-${Date.now()}.json`
+      `${testInfo.titlePath.join('-').replace(/[\\/:*?"<>|]/g, '_')}-${Date.now()}.json`
     );
     
     fs.writeFileSync(resultPath, JSON.stringify(testResult, null, 2));
   }
   
   /**
-   * Generate custom HTML report
-   * @param title Report title
-   * @param description Report description
+   * Load all results recorded with recordTestResult
+   * @returns Recorded test results (empty if nothing was recorded yet)
    */
-  static async generateCustomReport(title: string, description?: string): Promise<string> {
+  static loadTestResults(): TestResult[] {
     const testResultsDir = path.join(this.resultsDir, 'test-results');
-    const reportPath = path.join(this.resultsDir, 'custom-report.html');
+    if (!fs.existsSync(testResultsDir)) {
+      return [];
+    }
     
-    // Get all test results
     const resultFiles = fs.readdirSync(testResultsDir)
       .filter(file => file.endsWith('.json'));
     
@@ -106,6 +106,20 @@ export class ReportUtils {
       }
     }
     
+    return testResults;
+  }
+  
+  /**
+   * Generate custom HTML report
+   * @param title Report title
+   * @param description Report description
+   */
+  static async generateCustomReport(title: string, description?: string): Promise<string> {
+    const reportPath = path.join(this.resultsDir, 'custom-report.html');
+    
+    // Get all test results
+    const testResults = this.loadTestResults();
+    
     // Calculate statistics
     const totalTests = testResults.length;
     const passedTests = testResults.filter(result => result.status === 'passed').length;
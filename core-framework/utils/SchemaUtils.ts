@@ -0,0 +1,243 @@
+/**
+ * Subset of JSON Schema supported by SchemaUtils
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  $ref?: string;
+  definitions?: Record<string, JsonSchema>;
+  $defs?: Record<string, JsonSchema>;
+  description?: string;
+  [keyword: string]: unknown;
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * One schema violation
+ */
+export interface SchemaIssue {
+  // Location of the offending value, e.g. 'standardUser.password' or 'products[2].price'
+  path: string;
+  // Violated keyword, e.g. 'required' or 'type'
+  keyword: string;
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+/**
+ * Violations grouped by what is wrong with the value
+ */
+export interface SchemaDiff {
+  // Paths of required fields that are missing
+  missing: string[];
+  // Paths of fields the schema does not allow
+  extra: string[];
+  // Fields whose value has the wrong type
+  wrongType: { path: string; expected: string; actual: string }[];
+  // Any other violation (enum, pattern, minimum, ...)
+  invalid: { path: string; message: string }[];
+}
+
+/**
+ * Schema Utilities for validating data against JSON Schema
+ *
+ * Supports the keywords most test data and API payloads need: type, properties, required,
+ * additionalProperties, items, enum, const, pattern, min/maxLength, minimum/maximum,
+ * min/maxItems, anyOf, allOf and local $ref (e.g. '#/definitions/...' or '#/$defs/...').
+ * Unknown keywords are ignored, as in JSON Schema.
+ */
+export class SchemaUtils {
+  /**
+   * Validate a value against a schema
+   * @param schema JSON Schema
+   * @param value Value to validate
+   * @returns All violations, empty if the value is valid
+   */
+  static validate(schema: JsonSchema, value: unknown): SchemaIssue[] {
+    const issues: SchemaIssue[] = [];
+    this.validateNode(schema, value, '', schema, issues);
+    return issues;
+  }
+
+  /**
+   * Format violations as one line per issue
+   * @param issues Violations from validate()
+   */
+  static formatIssues(issues: SchemaIssue[]): string {
+    return issues.map(issue => `${issue.path || '(root)'}: ${issue.message}`).join('\n');
+  }
+
+  /**
+   * Group violations into missing, extra and wrongly typed fields
+   * @param issues Violations from validate()
+   */
+  static diff(issues: SchemaIssue[]): SchemaDiff {
+    const diff: SchemaDiff = { missing: [], extra: [], wrongType: [], invalid: [] };
+    for (const issue of issues) {
+      const path = issue.path || '(root)';
+      if (issue.keyword === 'required') {
+        diff.missing.push(path);
+      } else if (issue.keyword === 'additionalProperties') {
+        diff.extra.push(path);
+      } else if (issue.keyword === 'type') {
+        const expected = Array.isArray(issue.expected) ? issue.expected.join(' or ') : String(issue.expected);
+        diff.wrongType.push({ path, expected, actual: this.typeOf(issue.actual) });
+      } else {
+        diff.invalid.push({ path, message: issue.message });
+      }
+    }
+    return diff;
+  }
+
+  /**
+   * Join a property name or array index onto a path
+   * @param path Parent path
+   * @param key Property name or array index
+   */
+  static joinPath(path: string, key: string | number): string {
+    if (typeof key === 'number') {
+      return `${path}[${key}]`;
+    }
+    return path ? `${path}.${key}` : key;
+  }
+
+  /**
+   * JSON Schema type of a value
+   * @param value Value to classify
+   */
+  static typeOf(value: unknown): JsonSchemaType | 'undefined' {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') return typeof value as JsonSchemaType;
+    return 'undefined';
+  }
+
+  private static validateNode(schema: JsonSchema, value: unknown, path: string, root: JsonSchema, issues: SchemaIssue[]): void {
+    if (schema.$ref) {
+      this.validateNode(this.resolveRef(schema.$ref, root), value, path, root, issues);
+      return;
+    }
+
+    const actualType = this.typeOf(value);
+
+    if (schema.type) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      const matches = types.some(type => type === actualType || (type === 'number' && actualType === 'integer'));
+      if (!matches) {
+        issues.push({ path, keyword: 'type', message: `expected ${types.join(' or ')}, got ${actualType}`, expected: schema.type, actual: value });
+        return;
+      }
+    }
+
+    if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+      issues.push({ path, keyword: 'enum', message: `expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`, expected: schema.enum, actual: value });
+    }
+
+    if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+      issues.push({ path, keyword: 'const', message: `expected ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}`, expected: schema.const, actual: value });
+    }
+
+    if (schema.anyOf) {
+      const matchesAny = schema.anyOf.some(option => {
+        const optionIssues: SchemaIssue[] = [];
+        this.validateNode(option, value, path, root, optionIssues);
+        return optionIssues.length === 0;
+      });
+      if (!matchesAny) {
+        issues.push({ path, keyword: 'anyOf', message: 'does not match any of the allowed schemas', actual: value });
+      }
+    }
+
+    for (const part of schema.allOf ?? []) {
+      this.validateNode(part, value, path, root, issues);
+    }
+
+    if (typeof value === 'string') {
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        issues.push({ path, keyword: 'minLength', message: `expected at least ${schema.minLength} characters, got ${value.length}`, expected: schema.minLength, actual: value.length });
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        issues.push({ path, keyword: 'maxLength', message: `expected at most ${schema.maxLength} characters, got ${value.length}`, expected: schema.maxLength, actual: value.length });
+      }
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        issues.push({ path, keyword: 'pattern', message: `${JSON.stringify(value)} does not match /${schema.pattern}/`, expected: schema.pattern, actual: value });
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push({ path, keyword: 'minimum', message: `expected >= ${schema.minimum}, got ${value}`, expected: schema.minimum, actual: value });
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        issues.push({ path, keyword: 'maximum', message: `expected <= ${schema.maximum}, got ${value}`, expected: schema.maximum, actual: value });
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push({ path, keyword: 'minItems', message: `expected at least ${schema.minItems} items, got ${value.length}`, expected: schema.minItems, actual: value.length });
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push({ path, keyword: 'maxItems', message: `expected at most ${schema.maxItems} items, got ${value.length}`, expected: schema.maxItems, actual: value.length });
+      }
+      if (schema.items) {
+        value.forEach((item, index) => this.validateNode(schema.items!, item, this.joinPath(path, index), root, issues));
+      }
+    }
+
+    if (actualType === 'object') {
+      const object = value as Record<string, unknown>;
+      for (const name of schema.required ?? []) {
+        if (object[name] === undefined) {
+          issues.push({ path: this.joinPath(path, name), keyword: 'required', message: 'is required but missing', expected: schema.properties?.[name]?.type });
+        }
+      }
+      for (const [name, propertyValue] of Object.entries(object)) {
+        const propertySchema = schema.properties?.[name];
+        if (propertySchema) {
+          this.validateNode(propertySchema, propertyValue, this.joinPath(path, name), root, issues);
+        } else if (schema.additionalProperties === false) {
+          issues.push({ path: this.joinPath(path, name), keyword: 'additionalProperties', message: 'is not allowed by the schema', actual: propertyValue });
+        } else if (typeof schema.additionalProperties === 'object') {
+          this.validateNode(schema.additionalProperties, propertyValue, this.joinPath(path, name), root, issues);
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolve a local $ref such as '#/definitions/user'
+   * @param ref Reference
+   * @param root Root schema
+   */
+  private static resolveRef(ref: string, root: JsonSchema): JsonSchema {
+    if (!ref.startsWith('#')) {
+      throw new Error(`Only local schema references are supported, got '${ref}'`);
+    }
+    let target: any = root;
+    for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+      target = target?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+    }
+    if (typeof target !== 'object' || target === null) {
+      throw new Error(`Schema reference '${ref}' does not resolve`);
+    }
+    return target;
+  }
+}
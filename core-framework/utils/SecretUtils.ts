@@ -0,0 +1,248 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ROOT_DIR } from '../config/app-config';
+import { ErrorCode } from './ErrorConstants';
+import { ErrorReportingUtils } from './ErrorReportingUtils';
+
+/**
+ * Layout of the encrypted secrets file (AES-256-GCM, key derived from SECRETS_KEY with scrypt)
+ */
+interface EncryptedSecretsFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Error as returned by SecretUtils.redactValue
+ */
+export interface RedactedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+// Placeholder for a secret inside a test data string, e.g. ${secret:SAUCE_QA_PASSWORD}
+const SECRET_PLACEHOLDER = /\$\{secret:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+// Text that replaces secret values in logs, error reports and AI prompts
+export const REDACTED = '***';
+
+/**
+ * Secret Utilities for resolving credentials in test data and keeping them out of logs
+ *
+ * Secrets are looked up by name, first in the environment variables (including .env),
+ * then in the local encrypted secrets file (SECRETS_FILE, default config/secrets.enc.json)
+ * decrypted with the key in SECRETS_KEY. Every resolved value is remembered so that
+ * redact() can mask it wherever it would otherwise be printed or sent.
+ */
+export class SecretUtils {
+  // Values resolved in this process, longest first so overlapping secrets are fully masked
+  private static knownSecrets: string[] = [];
+  private static fileSecrets: Record<string, string> | undefined;
+
+  /**
+   * Path of the encrypted secrets file
+   */
+  static getSecretsFilePath(): string {
+    return path.resolve(ROOT_DIR, process.env.SECRETS_FILE || 'config/secrets.enc.json');
+  }
+
+  /**
+   * Resolve a secret by name
+   * @param name Secret name, e.g. SAUCE_QA_PASSWORD
+   * @returns Secret value
+   * @throws ERROR_MISSING_DATA if the secret is neither in the environment nor in the secrets file
+   */
+  static resolve(name: string): string {
+    const value = process.env[name] ?? this.loadSecretsFile()[name];
+    if (value === undefined) {
+      throw ErrorReportingUtils.createError(
+        ErrorCode.ERROR_MISSING_DATA,
+        `secret '${name}' is not set; define the environment variable ${name} (e.g. in .env) ` +
+        `or store it with 'npm run secrets -- set ${name} <value>'`
+      );
+    }
+    this.register(value);
+    return value;
+  }
+
+  /**
+   * Whether a string contains ${secret:NAME} placeholders
+   * @param value String to check
+   */
+  static hasPlaceholder(value: string): boolean {
+    SECRET_PLACEHOLDER.lastIndex = 0;
+    return SECRET_PLACEHOLDER.test(value);
+  }
+
+  /**
+   * Replace the ${secret:NAME} placeholders in a string with their values
+   * @param value String with placeholders
+   */
+  static resolvePlaceholders(value: string): string {
+    return value.replace(SECRET_PLACEHOLDER, (_match, name: string) => this.resolve(name));
+  }
+
+  /**
+   * Turn every string property with placeholders into a lazily resolved property
+   *
+   * Secrets are only looked up when the property is read, so data for other
+   * environments or roles never needs its secrets to be available.
+   * @param data Test data object (modified in place)
+   * @returns The same object
+   */
+  static defineSecretProperties<T>(data: T): T {
+    if (typeof data === 'object' && data !== null) {
+      this.defineSecretPropertiesOf(data as Record<string, unknown>);
+    }
+    return data;
+  }
+
+  private static defineSecretPropertiesOf(data: Record<string, unknown>): void {
+    for (const [key, value] of Object.entries(data)) {
+      if (typeof value === 'string' && this.hasPlaceholder(value)) {
+        let resolved: string | undefined;
+        Object.defineProperty(data, key, {
+          enumerable: true,
+          configurable: true,
+          get: () => resolved ??= this.resolvePlaceholders(value),
+          set: (newValue: string) => { resolved = newValue; }
+        });
+      } else if (typeof value === 'object' && value !== null) {
+        this.defineSecretPropertiesOf(value as Record<string, unknown>);
+      }
+    }
+  }
+
+  /**
+   * Remember a value as secret so that redact() masks it
+   * @param value Secret value
+   */
+  static register(value: string): void {
+    if (value && !this.knownSecrets.includes(value)) {
+      this.knownSecrets.push(value);
+      this.knownSecrets.sort((a, b) => b.length - a.length);
+    }
+  }
+
+  /**
+   * Mask every known secret value in a text
+   * @param text Text to redact
+   */
+  static redact(text: string): string {
+    let redacted = text;
+    for (const secret of this.knownSecrets) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+    return redacted;
+  }
+
+  /**
+   * Mask every known secret value in strings nested anywhere in a value
+   * Errors become plain objects, so their redacted message and stack can be serialized.
+   * @param value Value to redact (strings, arrays, plain objects and errors)
+   * @returns Redacted copy
+   */
+  static redactValue(value: Error): RedactedError;
+  static redactValue<T>(value: T): T;
+  static redactValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.redact(value);
+    }
+    if (value instanceof Error) {
+      const redacted: RedactedError = { name: value.name, message: this.redact(value.message), stack: value.stack && this.redact(value.stack) };
+      return redacted;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item));
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.redactValue(item)]));
+    }
+    return value;
+  }
+
+  /**
+   * Decrypt and cache the secrets file (empty if there is no file)
+   * @throws ERROR_CONFIG_INVALID if the file exists but SECRETS_KEY is missing or wrong
+   */
+  private static loadSecretsFile(): Record<string, string> {
+    if (this.fileSecrets) {
+      return this.fileSecrets;
+    }
+    const filePath = this.getSecretsFilePath();
+    if (!fs.existsSync(filePath)) {
+      return this.fileSecrets = {};
+    }
+    const key = process.env.SECRETS_KEY;
+    if (!key) {
+      throw ErrorReportingUtils.createError(ErrorCode.ERROR_CONFIG_INVALID, `SECRETS_KEY is required to read ${filePath}`);
+    }
+    try {
+      return this.fileSecrets = this.decrypt(JSON.parse(fs.readFileSync(filePath, 'utf8')), key);
+    } catch (error: any) {
+      throw ErrorReportingUtils.createError(ErrorCode.ERROR_CONFIG_INVALID, `could not decrypt ${filePath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Encrypt secrets into the secrets file format
+   * @param secrets Secret name -> value
+   * @param key Encryption key (SECRETS_KEY)
+   */
+  static encrypt(secrets: Record<string, string>, key: string): EncryptedSecretsFile {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', crypto.scryptSync(key, salt, 32), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+    return {
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+  }
+
+  /**
+   * Decrypt the contents of a secrets file
+   * @param file Parsed secrets file
+   * @param key Encryption key (SECRETS_KEY)
+   * @returns Secret name -> value
+   */
+  static decrypt(file: EncryptedSecretsFile, key: string): Record<string, string> {
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      crypto.scryptSync(key, Buffer.from(file.salt, 'base64'), 32),
+      Buffer.from(file.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    const data = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    return JSON.parse(data.toString('utf8'));
+  }
+
+  /**
+   * Read all secrets from the secrets file, for the secrets script
+   * @param key Encryption key (SECRETS_KEY)
+   */
+  static readSecretsFile(key: string): Record<string, string> {
+    const filePath = this.getSecretsFilePath();
+    return fs.existsSync(filePath) ? this.decrypt(JSON.parse(fs.readFileSync(filePath, 'utf8')), key) : {};
+  }
+
+  /**
+   * Write all secrets to the secrets file, for the secrets script
+   * @param secrets Secret name -> value
+   * @param key Encryption key (SECRETS_KEY)
+   */
+  static writeSecretsFile(secrets: Record<string, string>, key: string): void {
+    const filePath = this.getSecretsFilePath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(this.encrypt(secrets, key), null, 2));
+    this.fileSecrets = undefined;
+  }
+}
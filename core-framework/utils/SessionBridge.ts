@@ -0,0 +1,112 @@
+import { BrowserContext } from '@playwright/test';
+import CONFIG from '../config/config';
+import { ApiUtils } from './ApiUtils';
+import { BearerAuthProvider, CookieAuthProvider } from './AuthProviders';
+import { ErrorCode } from './ErrorConstants';
+import { ErrorReportingUtils } from './ErrorReportingUtils';
+
+/**
+ * Options of a session transfer
+ */
+export interface SessionBridgeOptions {
+  // Web app URL the browser session belongs to (defaults to CONFIG.baseUrl)
+  url?: string;
+  // Only transfer these cookies; all cookies when omitted
+  cookieNames?: string[];
+  // localStorage key of the web app that holds the bearer token, if the app keeps one
+  tokenStorageKey?: string;
+}
+
+/**
+ * What a session transfer copied
+ */
+export interface SessionTransfer {
+  cookies: string[];
+  token: boolean;
+}
+
+/**
+ * Moves an authenticated session between ApiUtils and a browser context
+ *
+ * toBrowser copies the cookies of the API session (those the API set, plus a cookie or
+ * bearer token from the auth provider) into the browser for the web app URL, so a test
+ * can seed state through the API and see it in the UI without logging in through the form.
+ * fromBrowser does the reverse for a session started in the browser.
+ */
+export class SessionBridge {
+  /**
+   * Copy the API session into a browser context
+   * Cookies are set for the web app URL whatever domain the API set them for; a bearer
+   * token is written to localStorage before the app's scripts run when tokenStorageKey is set.
+   * @param api Initialized ApiUtils, e.g. `sauceApiClient.api`
+   * @param context Browser context to copy the session into
+   * @param options Web app URL, cookie filter and token storage key
+   */
+  static async toBrowser(api: ApiUtils, context: BrowserContext, options: SessionBridgeOptions = {}): Promise<SessionTransfer> {
+    const url = options.url ?? CONFIG.baseUrl;
+    const credentials = await api.authHeaders();
+
+    // Cookies the API set, overridden by those the auth provider sends
+    const cookies: Record<string, string> = {};
+    for (const cookie of await api.cookies()) {
+      cookies[cookie.name] = cookie.value;
+    }
+    for (const pair of (credentials['Cookie'] ?? '').split(';')) {
+      const [name, ...value] = pair.trim().split('=');
+      if (name) {
+        cookies[name] = value.join('=');
+      }
+    }
+
+    const names = Object.keys(cookies).filter(name => !options.cookieNames || options.cookieNames.includes(name));
+    if (names.length > 0) {
+      await context.addCookies(names.map(name => ({ name, value: cookies[name], url })));
+    }
+
+    const token = /^Bearer (.+)$/.exec(credentials['Authorization'] ?? '')?.[1];
+    if (token && options.tokenStorageKey) {
+      await context.addInitScript(([origin, key, value]) => {
+        if (window.location.origin === origin && window.localStorage.getItem(key) === null) {
+          window.localStorage.setItem(key, value);
+        }
+      }, [new URL(url).origin, options.tokenStorageKey, token]);
+    }
+
+    return { cookies: names, token: Boolean(token && options.tokenStorageKey) };
+  }
+
+  /**
+   * Authenticate ApiUtils with the session of a browser context
+   * The bearer token under tokenStorageKey is used when the browser has one, otherwise
+   * the cookies of the web app URL.
+   * @param context Browser context holding the session
+   * @param api ApiUtils to authenticate
+   * @param options Web app URL, cookie filter and token storage key
+   * @throws ERROR_AUTH_FAILED if the browser has neither
+   */
+  static async fromBrowser(context: BrowserContext, api: ApiUtils, options: SessionBridgeOptions = {}): Promise<SessionTransfer> {
+    const url = options.url ?? CONFIG.baseUrl;
+
+    if (options.tokenStorageKey) {
+      const origin = new URL(url).origin;
+      const storage = (await context.storageState()).origins.find(entry => entry.origin === origin)?.localStorage ?? [];
+      const token = storage.find(entry => entry.name === options.tokenStorageKey)?.value;
+      if (token) {
+        api.setAuthProvider(new BearerAuthProvider(token));
+        return { cookies: [], token: true };
+      }
+    }
+
+    const cookies = (await context.cookies(url))
+      .filter(cookie => !options.cookieNames || options.cookieNames.includes(cookie.name));
+    if (cookies.length === 0) {
+      throw ErrorReportingUtils.createError(
+        ErrorCode.ERROR_AUTH_FAILED,
+        `the browser context has no session for ${url}${options.cookieNames ? ` (cookies: ${options.cookieNames.join(', ')})` : ''}`
+      );
+    }
+
+    api.setAuthProvider(new CookieAuthProvider({ cookies: Object.fromEntries(cookies.map(cookie => [cookie.name, cookie.value])) }));
+    return { cookies: cookies.map(cookie => cookie.name), token: false };
+  }
+}
@@ -1,20 +1,60 @@
-import { PlaywrightTestConfig, devices } from '@playwright/test';
+import { PlaywrightTestConfig } from '@playwright/test';
 import path from 'path';
 import CONFIG from './core-framework/config/config';
+import { getAppConfig } from './core-framework/config/app-config';
+import { buildTagFilter } from './core-framework/config/tags';
+import { getShardFiles, listTestFiles, planShardsForConfig } from './core-framework/config/sharding';
+import { AUTH_SETUP_PROJECT, buildProjects, selectCliFiles } from './core-framework/config/projects';
+import { getDestructiveTagPattern, isExcludedTestsListRun, isProductionRun, listExcludedTests } from './core-framework/config/production-guard';
 
-// Define a grep pattern based on tags if provided
+// Define a grep pattern from the tag expression if provided, e.g. --tags "(smoke or checkout) and not flaky"
+const appConfig = getAppConfig(CONFIG.app);
 let grepPattern: RegExp | undefined;
-if (CONFIG.tags && CONFIG.tags.length > 0) {
-  // Create a pattern that matches any of the specified tags
-  const tagPatterns = CONFIG.tags.map(tag => `@${tag}\b`).join('|');
-  grepPattern = new RegExp(tagPatterns);
-  console.log(`Running tests with tags: ${CONFIG.tags.join(', ')}`);
+if (CONFIG.tags) {
+  grepPattern = buildTagFilter(CONFIG.tags, appConfig);
+  console.log(`Running tests matching tags: ${CONFIG.tags}`);
 }
 
+// Never run destructive tests against production (destructiveTags in the app config)
+const productionRun = isProductionRun(CONFIG, appConfig);
+let grepInvertPattern = productionRun ? getDestructiveTagPattern(appConfig.destructiveTags) : undefined;
+if (isExcludedTestsListRun()) {
+  // The production guard's list pass selects exactly the tests the run excludes
+  grepPattern = getDestructiveTagPattern(appConfig.destructiveTags, CONFIG.tags);
+  grepInvertPattern = undefined;
+} else if (grepInvertPattern) {
+  console.log(`Production run: excluding tests tagged ${appConfig.destructiveTags.map(tag => `@${tag}`).join(', ')}`);
+}
+
+const testDir = path.join('apps', CONFIG.app, 'tests');
+
+// Restrict the run to this shard's files, balanced by recorded test durations (SHARD=2/5)
+let shardTestMatch: RegExp[] | undefined;
+// Test files of the run
+let runFiles = listTestFiles(path.resolve(__dirname, testDir), __dirname);
+if (CONFIG.shard) {
+  const plan = planShardsForConfig(CONFIG);
+  const shardFiles = getShardFiles(plan);
+  runFiles = shardFiles.map(({ file }) => file);
+  shardTestMatch = shardFiles.map(({ file }) => new RegExp(`${path.resolve(__dirname, file).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`));
+  console.log(`Running shard ${CONFIG.shard} (${plan.strategy}): ${shardFiles.length} file(s)`);
+}
+
+// Test files the command line selects
+const selectedFiles = selectCliFiles(runFiles);
+
+// Tests the production guard excludes, for the summary (listed once, by the main process)
+const excludedTests = grepInvertPattern && process.env.TEST_WORKER_INDEX === undefined
+  ? listExcludedTests(selectedFiles, [AUTH_SETUP_PROJECT])
+  : undefined;
+
 // Define the Playwright configuration
 const config: PlaywrightTestConfig = {
   // Test directory pattern
-  testDir: path.join('apps', CONFIG.app, 'tests'),
+  testDir,
+  
+  // Only this shard's files when sharding (SHARD)
+  ...(shardTestMatch ? { testMatch: shardTestMatch } : {}),
   
   // Maximum time one test can run for
   timeout: CONFIG.timeout,
@@ -24,12 +64,20 @@ const config: PlaywrightTestConfig = {
   
   // Filter tests by tag if tags are provided
   grep: grepPattern,
+  grepInvert: grepInvertPattern,
   
   // Reporter configuration - JUnit XML and HTML as requested
   reporter: [
     ['junit', { outputFile: path.join(CONFIG.testResultsDir, 'junit-results.xml') }],
     ['html', { outputFolder: path.join(CONFIG.testResultsDir, 'html-report') }],
-    ['list'] // Console output
+    ['list'], // Console output
+    // Test durations for duration-balanced sharding (SHARD)
+    ['./core-framework/reporters/DurationHistoryReporter.ts', { rootDir: __dirname, resultsDir: CONFIG.testResultsDir }],
+    // Summary of what the production safety guard suppressed
+    ...(productionRun ? [[
+      './core-framework/reporters/ProductionGuardReporter.ts',
+      { app: CONFIG.app, env: CONFIG.env, destructiveTags: appConfig.destructiveTags, excludedTests }
+    ] as [string, any]] : [])
   ],
   
   // Retry failed tests
@@ -59,13 +107,9 @@ const config: PlaywrightTestConfig = {
     }
   },
   
-  // Configure projects for different browsers
-  projects: [
-    {
-      name: 'chromium',
-      use: { ...devices['Desktop Chrome'] }
-    }
-  ],
+  // Configure projects for the browser/device matrix (--browsers, --devices), plus auth
+  // setup for the roles used by the test files the run selects
+  projects: buildProjects(CONFIG, appConfig, selectedFiles),
   
   // Output directory for test artifacts
   outputDir: path.join(CONFIG.testResultsDir, 'test-artifacts'),
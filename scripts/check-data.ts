@@ -0,0 +1,102 @@
+#!/usr/bin/env ts-node
+import path from 'path';
+import { loadResolvedConfig } from '../core-framework/config/config';
+import { getAppConfig } from '../core-framework/config/app-config';
+import { DataUtils } from '../core-framework/utils/DataUtils';
+import { SchemaUtils } from '../core-framework/utils/SchemaUtils';
+
+/**
+ * Report conflicts between duplicate test data sources
+ *
+ * When a logical name has several sources (e.g. users.yaml and users.json), DataUtils
+ * only reads the first one. This script loads every source for every environment of the
+ * app and lists the values that differ, so the duplicates can be merged or removed.
+ * Secret placeholders are compared as written. Exits with code 1 if any conflict is found.
+ *
+ * Usage:
+ *   ts-node scripts/check-data.ts [--app=sauce-demo]
+ */
+
+interface Difference {
+  path: string;
+  left: unknown;
+  right: unknown;
+}
+
+// Paths at which two values differ
+function diff(left: unknown, right: unknown, dataPath = '', differences: Difference[] = []): Difference[] {
+  const leftType = SchemaUtils.typeOf(left);
+  if (leftType !== SchemaUtils.typeOf(right) || (leftType !== 'object' && leftType !== 'array')) {
+    if (JSON.stringify(left) !== JSON.stringify(right)) {
+      differences.push({ path: dataPath, left, right });
+    }
+    return differences;
+  }
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      diff(left[i], right[i], SchemaUtils.joinPath(dataPath, i), differences);
+    }
+  } else {
+    const leftObject = left as Record<string, unknown>;
+    const rightObject = right as Record<string, unknown>;
+    for (const key of new Set([...Object.keys(leftObject), ...Object.keys(rightObject)])) {
+      diff(leftObject[key], rightObject[key], SchemaUtils.joinPath(dataPath, key), differences);
+    }
+  }
+  return differences;
+}
+
+// Short form of a value for the report
+function show(value: unknown): string {
+  const text = value === undefined ? '(missing)' : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function main(): void {
+  const { config } = loadResolvedConfig();
+  const environments = getAppConfig(config.app).validEnvironments;
+  const sourcesByName = DataUtils.listDataSources(config.app);
+  let conflicts = 0;
+
+  console.log(`Test data sources in apps/${config.app}/testdata:`);
+  for (const [name, sources] of sourcesByName) {
+    const files = sources.map(source => path.basename(source));
+    console.log(`  ${name.padEnd(20)} ${files.join(', ')}`);
+    if (sources.length < 2) {
+      continue;
+    }
+
+    const [preferred, ...others] = sources;
+    for (const other of others) {
+      // Environments with the same result are reported together
+      const results = new Map<string, string[]>();
+      for (const env of environments) {
+        let lines: string[];
+        try {
+          lines = diff(DataUtils.loadDataSource(preferred, env, true), DataUtils.loadDataSource(other, env, true))
+            .map(difference => `${difference.path || '(root)'}: ${show(difference.left)} vs ${show(difference.right)}`);
+        } catch (error: any) {
+          lines = [`cannot compare: ${error.message}`];
+        }
+        if (lines.length > 0) {
+          const key = lines.join('\n');
+          results.set(key, [...(results.get(key) ?? []), env]);
+        }
+      }
+      for (const [lines, envs] of results) {
+        conflicts += lines.split('\n').length;
+        console.error(`    ${files[0]} vs ${path.basename(other)} (${envs.join(', ')}):`);
+        console.error(lines.split('\n').map(line => `      ${line}`).join('\n'));
+      }
+    }
+  }
+
+  if (conflicts > 0) {
+    console.error(`\n${conflicts} conflicting value(s); tests only read the first source of each name`);
+    process.exit(1);
+  }
+  console.log('No conflicts between test data sources');
+}
+
+main();
@@ -0,0 +1,48 @@
+#!/usr/bin/env ts-node
+import fs from 'fs';
+import path from 'path';
+import minimist from 'minimist';
+import { loadResolvedConfig } from '../core-framework/config/config';
+import { SHARD_MANIFEST_DIR, ShardManifest, checkShardManifests } from '../core-framework/config/sharding';
+
+/**
+ * Check that every shard of a sharded run reported
+ *
+ * Reads the shard manifests collected from all CI agents and, when a merged JUnit
+ * report is given, verifies that every planned test file appears in it. Exits with
+ * code 1 if a shard or file is missing.
+ *
+ * Usage:
+ *   ts-node scripts/check-shards.ts [--app=sauce-demo] [--manifests=dir] [--junit=merged-results.xml]
+ */
+function main(): void {
+  const args = minimist(process.argv.slice(2));
+  const { config } = loadResolvedConfig();
+  const manifestDir = args.manifests || path.join(config.testResultsDir, SHARD_MANIFEST_DIR);
+
+  const manifests: ShardManifest[] = fs.existsSync(manifestDir)
+    ? fs.readdirSync(manifestDir)
+      .filter(file => /^shard-\d+-of-\d+\.json$/.test(file))
+      .map(file => JSON.parse(fs.readFileSync(path.join(manifestDir, file), 'utf8')))
+    : [];
+
+  // JUnit test suites are named by file path relative to the app's test directory
+  let reportedFiles: string[] | undefined;
+  if (args.junit) {
+    const junit = fs.readFileSync(args.junit, 'utf8');
+    reportedFiles = [...junit.matchAll(/<testsuite\b[^>]*\bname="([^"]+)"/g)]
+      .map(match => `apps/${config.app}/tests/${match[1]}`);
+  }
+
+  const problems = checkShardManifests(manifests, reportedFiles);
+  if (problems.length > 0) {
+    console.error(`Sharded run is incomplete (${manifestDir}):\n  - ${problems.join('\n  - ')}`);
+    process.exit(1);
+  }
+
+  const total = manifests[0].shard.total;
+  const files = manifests[0].partition.reduce((sum, shardFiles) => sum + shardFiles.length, 0);
+  console.log(`All ${total} shards reported (${files} test files, ${manifests[0].strategy} balancing)`);
+}
+
+main();
@@ -0,0 +1,524 @@
+#!/usr/bin/env ts-node
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import minimist from 'minimist';
+import { loadResolvedConfig } from '../core-framework/config/config';
+import { ROOT_DIR, getAppConfig } from '../core-framework/config/app-config';
+
+/**
+ * Generate typed API models and a client from an app's OpenAPI document
+ *
+ * Reads `apps/<app>/api/openapi.yaml` (OpenAPI 3) and writes to `apps/<app>/api/generated/`:
+ * - models.ts: one interface or type per `components.schemas` entry, plus named types
+ *   for inline request and response bodies
+ * - schemas.ts: a JSON Schema per model (`<Model>Schema`) for SchemaUtils; objects reject
+ *   properties the document does not declare, unless they set additionalProperties
+ * - <Name>ApiClient.ts: a class with one method per operation, built on ApiUtils
+ *
+ * Methods are named after the operationId (or the method and path when there is none) and
+ * take the path parameters, then the JSON request body, then an object of query parameters.
+ * They return the JSON body of the first 2xx response, validated against its schema.
+ * Operations declared with `security: []` are sent without the client's credentials.
+ * Only local `#/components/...` $refs are supported. With --check nothing is written; the
+ * script exits with code 1 if the generated files are out of date.
+ *
+ * Usage:
+ *   ts-node scripts/generate-api-client.ts [--app=sauce-demo] [--name=SauceDemo] [--check]
+ */
+
+type Schema = Record<string, any>;
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: Schema;
+}
+
+interface Operation {
+  method: string;
+  path: string;
+  name: string;
+  summary?: string;
+  pathParams: Parameter[];
+  queryParams: Parameter[];
+  bodyType?: string;
+  bodyRequired: boolean;
+  returnType: string;
+  // Declared with `security: []`, so sent without credentials
+  anonymous: boolean;
+}
+
+const METHODS = ['get', 'post', 'put', 'delete'];
+const UNSUPPORTED_METHODS = ['patch', 'head', 'options', 'trace'];
+
+class OpenApiGenerator {
+  private readonly models: string[] = [];
+  private readonly modelNames = new Set<string>();
+  // Model name -> JSON Schema, with $refs pointing to '#/components/schemas/<Model>'
+  private readonly schemas: Record<string, Schema> = {};
+
+  constructor(private readonly document: Schema, private readonly source: string) {
+    if (typeof document?.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+      throw new Error(`${source} is not an OpenAPI 3 document (missing 'openapi: 3.x')`);
+    }
+  }
+
+  /**
+   * Render models.ts (call after collect(), which adds the inline body models)
+   */
+  generateModels(): string {
+    return [
+      fileHeader(`${this.document.info?.title ?? 'API'} models`, this.source),
+      this.models.join('\n\n'),
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Render schemas.ts (call after collect())
+   */
+  generateSchemas(): string {
+    const json = JSON.stringify({ schemas: this.schemas }, null, 2);
+    return [
+      fileHeader(`${this.document.info?.title ?? 'API'} schemas`, this.source),
+      `import { JsonSchema } from '../../../../core-framework/utils/SchemaUtils';`,
+      '',
+      '// Schemas of all models; the exported schemas refer into it',
+      `const components: { schemas: Record<string, JsonSchema> } = ${json};`,
+      '',
+      ...Object.keys(this.schemas).map(name =>
+        `export const ${name}Schema: JsonSchema = { $ref: '#/components/schemas/${name}', components };`),
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Collect the component schemas and operations; inline bodies become named models
+   */
+  collect(): Operation[] {
+    for (const [name, schema] of Object.entries<Schema>(this.document.components?.schemas ?? {})) {
+      this.addModel(typeName(name), schema);
+    }
+
+    const operations: Operation[] = [];
+    for (const [routePath, pathItem] of Object.entries<Schema>(this.document.paths ?? {})) {
+      const shared: Parameter[] = (pathItem.parameters ?? []).map((parameter: Schema) => this.resolve<Parameter>(parameter));
+      for (const [method, operation] of Object.entries<Schema>(pathItem)) {
+        if (UNSUPPORTED_METHODS.includes(method)) {
+          throw new Error(`${method.toUpperCase()} ${routePath}: ApiUtils has no ${method} method`);
+        }
+        if (METHODS.includes(method)) {
+          operations.push(this.collectOperation(method, routePath, operation, shared));
+        }
+      }
+    }
+
+    const duplicate = operations.find((operation, index) => operations.findIndex(other => other.name === operation.name) !== index);
+    if (duplicate) {
+      throw new Error(`two operations are named '${duplicate.name}'; give them distinct operationIds`);
+    }
+    return operations;
+  }
+
+  private collectOperation(method: string, routePath: string, operation: Schema, shared: Parameter[]): Operation {
+    const name = operation.operationId ? identifier(operation.operationId) : defaultOperationName(method, routePath);
+    const own: Parameter[] = (operation.parameters ?? []).map((parameter: Schema) => this.resolve<Parameter>(parameter));
+    // Operation parameters override path-level ones with the same name and location
+    const parameters = [...shared.filter(p => !own.some(o => o.name === p.name && o.in === p.in)), ...own];
+
+    const pathParams = [...routePath.matchAll(/\{([^}]+)\}/g)].map(match => {
+      const parameter = parameters.find(p => p.in === 'path' && p.name === match[1]);
+      if (!parameter) {
+        throw new Error(`${method.toUpperCase()} ${routePath}: path parameter '${match[1]}' is not declared`);
+      }
+      return parameter;
+    });
+
+    let bodyType: string | undefined;
+    let bodyRequired = false;
+    if (operation.requestBody) {
+      const requestBody = this.resolve(operation.requestBody);
+      const schema = requestBody.content?.['application/json']?.schema;
+      if (!schema) {
+        throw new Error(`${method.toUpperCase()} ${routePath}: only application/json request bodies are supported`);
+      }
+      bodyType = this.namedType(schema, `${pascalCase(name)}Request`);
+      bodyRequired = requestBody.required === true;
+    }
+
+    let returnType = 'void';
+    const success = Object.keys(operation.responses ?? {}).filter(status => /^2\d\d$/.test(status)).sort()[0];
+    if (success) {
+      const schema = this.resolve(operation.responses[success]).content?.['application/json']?.schema;
+      if (schema) {
+        // Always named, so the response has a schema to be validated against
+        returnType = this.namedType(schema, `${pascalCase(name)}Response`, true);
+      }
+    }
+
+    return {
+      method,
+      path: routePath,
+      name,
+      summary: operation.summary ?? operation.description,
+      pathParams,
+      queryParams: parameters.filter(p => p.in === 'query'),
+      bodyType,
+      bodyRequired,
+      returnType,
+      anonymous: Array.isArray(operation.security) && operation.security.length === 0
+    };
+  }
+
+  /**
+   * Render the client class
+   */
+  generateClient(className: string, operations: Operation[]): string {
+    const modelImports = [...new Set(operations.flatMap(operation => [operation.bodyType, operation.returnType])
+      .flatMap(type => (type ?? '').match(/\b[A-Z]\w*/g) ?? [])
+      .filter(type => this.modelNames.has(type)))].sort();
+
+    const schemaImports = [...new Set(operations.filter(operation => operation.returnType !== 'void')
+      .map(operation => `${operation.returnType}Schema`))].sort();
+
+    const methods = operations.map(operation => this.renderMethod(operation));
+    return [
+      fileHeader(`${this.document.info?.title ?? 'API'} client`, this.source),
+      `import { ApiUtils } from '../../../../core-framework/utils/ApiUtils';`,
+      `import { AuthProvider } from '../../../../core-framework/utils/AuthProviders';`,
+      modelImports.length > 0 ? `import {\n${modelImports.map(type => `  ${type}`).join(',\n')}\n} from './models';` : '',
+      schemaImports.length > 0 ? `import {\n${schemaImports.map(name => `  ${name}`).join(',\n')}\n} from './schemas';` : '',
+      '',
+      '/**',
+      ` * Client for the ${this.document.info?.title ?? 'API'}`,
+      ' * Requests go through ApiUtils, so the production guard applies; error statuses and',
+      ' * responses that do not match their schema throw.',
+      ' */',
+      `export class ${className} {`,
+      '  readonly api: ApiUtils;',
+      '',
+      '  /**',
+      `   * Creates a new instance of ${className}`,
+      '   * @param api ApiUtils to send the requests with (defaults to one for CONFIG.apiBaseUrl)',
+      '   */',
+      '  constructor(api: ApiUtils = new ApiUtils()) {',
+      '    this.api = api;',
+      '  }',
+      '',
+      '  /**',
+      '   * Initializes the API context',
+      '   */',
+      '  async init(): Promise<void> {',
+      '    await this.api.init();',
+      '  }',
+      '',
+      '  /**',
+      '   * Sends a bearer token with subsequent requests',
+      '   * @param token Authentication token',
+      '   */',
+      '  setAuthToken(token: string): void {',
+      '    this.api.setAuthToken(token);',
+      '  }',
+      '',
+      '  /**',
+      '   * Sets the credentials sent with subsequent requests',
+      '   * @param provider Auth provider, or undefined to send no credentials',
+      '   */',
+      '  setAuthProvider(provider?: AuthProvider): void {',
+      '    this.api.setAuthProvider(provider);',
+      '  }',
+      '',
+      ...methods.flatMap(method => [method, '']),
+      '  /**',
+      '   * Cleans up resources',
+      '   */',
+      '  async dispose(): Promise<void> {',
+      '    await this.api.dispose();',
+      '  }',
+      '}',
+      ''
+    ].filter((line, index, lines) => !(line === '' && lines[index - 1] === '')).join('\n');
+  }
+
+  private renderMethod(operation: Operation): string {
+    const args: string[] = [];
+    const docs: string[] = [];
+    for (const parameter of operation.pathParams) {
+      const name = identifier(parameter.name);
+      args.push(`${name}: ${this.renderType(parameter.schema ?? { type: 'string' })}`);
+      docs.push(`@param ${name} ${parameter.description ?? `Path parameter '${parameter.name}'`}`);
+    }
+    if (operation.bodyType) {
+      args.push(`body${operation.bodyRequired ? '' : '?'}: ${operation.bodyType}`);
+      docs.push('@param body Request body');
+    }
+    if (operation.queryParams.length > 0) {
+      const fields = operation.queryParams.map(parameter =>
+        `${propertyName(parameter.name)}${parameter.required ? '' : '?'}: ${this.renderType(parameter.schema ?? { type: 'string' })}`);
+      const required = operation.queryParams.some(parameter => parameter.required);
+      args.push(`query${required ? '' : '?'}: { ${fields.join('; ')} }`);
+      docs.push('@param query Query parameters');
+    }
+
+    // Relative paths keep the path of the base URL (e.g. /qa)
+    const relativePath = operation.path.replace(/^\//, '');
+    const url = operation.pathParams.length === 0 ? `'${relativePath}'` : '`' + relativePath.replace(/\{([^}]+)\}/g, (_match, name: string) => {
+      const parameter = operation.pathParams.find(p => p.name === name)!;
+      const value = identifier(name);
+      return `\${encodeURIComponent(${this.renderType(parameter.schema ?? {}) === 'string' ? value : `String(${value})`})}`;
+    }) + '`';
+    const query = operation.queryParams.length > 0 ? 'query' : undefined;
+    const optionFields = [
+      operation.returnType !== 'void' ? `schema: ${operation.returnType}Schema` : undefined,
+      operation.anonymous ? 'auth: false' : undefined
+    ].filter(Boolean);
+    const options = optionFields.length > 0 ? `{ ${optionFields.join(', ')} }` : undefined;
+    const callArgs = operation.method === 'get' || operation.method === 'delete'
+      ? [url, query, options]
+      : [url, operation.bodyType ? 'body' : undefined, query, options];
+    while (callArgs.length > 0 && callArgs[callArgs.length - 1] === undefined) {
+      callArgs.pop();
+    }
+
+    const summary = operation.summary ? operation.summary.trim().split('\n') : [];
+    return [
+      '  /**',
+      ...[...summary, `${operation.method.toUpperCase()} ${operation.path}`, ...docs].map(line => `   * ${line}`.trimEnd()),
+      '   */',
+      `  async ${operation.name}(${args.join(', ')}): Promise<${operation.returnType}> {`,
+      `    return await this.api.${operation.method}<${operation.returnType}>(${callArgs.map(arg => arg ?? 'undefined').join(', ')});`,
+      '  }'
+    ].join('\n');
+  }
+
+  /**
+   * Name of a schema's type; inline object schemas become a model with the given name
+   * @param always Also name inline schemas that are not objects (e.g. arrays)
+   */
+  private namedType(schema: Schema, name: string, always: boolean = false): string {
+    if (schema.$ref) {
+      return typeName(refName(schema.$ref, 'schemas'));
+    }
+    if (!always && !isObjectSchema(schema)) {
+      return this.renderType(schema);
+    }
+    this.addModel(name, schema);
+    return name;
+  }
+
+  private addModel(name: string, schema: Schema): void {
+    if (this.modelNames.has(name)) {
+      throw new Error(`model '${name}' is defined twice; rename the schema or give the operation another operationId`);
+    }
+    this.modelNames.add(name);
+    this.schemas[name] = toJsonSchema(schema);
+
+    const doc = schema.description ? `/**\n * ${schema.description}\n */\n` : '';
+    if (isObjectSchema(schema) && !schema.nullable) {
+      this.models.push(`${doc}export interface ${name} ${this.renderObject(schema, '')}`);
+    } else {
+      this.models.push(`${doc}export type ${name} = ${this.renderType(schema)};`);
+    }
+  }
+
+  private renderObject(schema: Schema, indent: string): string {
+    const required: string[] = schema.required ?? [];
+    const lines = Object.entries<Schema>(schema.properties ?? {}).map(([name, property]) => {
+      const doc = property.description ? `${indent}  /** ${property.description} */\n` : '';
+      return `${doc}${indent}  ${propertyName(name)}${required.includes(name) ? '' : '?'}: ${this.renderType(property, `${indent}  `)};`;
+    });
+    if (schema.additionalProperties) {
+      const valueType = schema.additionalProperties === true ? 'unknown' : this.renderType(schema.additionalProperties, `${indent}  `);
+      lines.push(`${indent}  [key: string]: ${valueType};`);
+    }
+    return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, never>';
+  }
+
+  private renderType(schema: Schema, indent: string = ''): string {
+    let type: string;
+    if (schema.$ref) {
+      type = typeName(refName(schema.$ref, 'schemas'));
+    } else if (Array.isArray(schema.enum)) {
+      type = schema.enum.map((value: unknown) => typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : JSON.stringify(value)).join(' | ');
+    } else if (schema.oneOf || schema.anyOf) {
+      type = (schema.oneOf ?? schema.anyOf).map((member: Schema) => wrap(this.renderType(member, indent))).join(' | ');
+    } else if (schema.allOf) {
+      type = schema.allOf.map((member: Schema) => wrap(this.renderType(member, indent))).join(' & ');
+    } else if (schema.type === 'array') {
+      type = `${wrap(this.renderType(schema.items ?? {}, indent))}[]`;
+    } else if (isObjectSchema(schema)) {
+      type = schema.properties ? this.renderObject(schema, indent)
+        : `Record<string, ${schema.additionalProperties && schema.additionalProperties !== true ? this.renderType(schema.additionalProperties, indent) : 'unknown'}>`;
+    } else {
+      type = { string: 'string', integer: 'number', number: 'number', boolean: 'boolean' }[schema.type as string] ?? 'unknown';
+    }
+    return schema.nullable ? `${wrap(type)} | null` : type;
+  }
+
+  /**
+   * Follow a local $ref to a components entry (parameters, requestBodies, responses)
+   */
+  private resolve<T = Schema>(value: Schema): T {
+    let current = value;
+    for (let depth = 0; current?.$ref; depth++) {
+      const match = /^#\/components\/(\w+)\/(.+)$/.exec(current.$ref);
+      const target = match ? this.document.components?.[match[1]]?.[match[2]] : undefined;
+      if (!target || depth > 10) {
+        throw new Error(`cannot resolve $ref '${current.$ref}'`);
+      }
+      current = target;
+    }
+    return current as T;
+  }
+}
+
+// Keywords of OpenAPI schemas that have no meaning for validation
+const ANNOTATION_KEYWORDS = ['nullable', 'example', 'examples', 'readOnly', 'writeOnly', 'deprecated', 'xml', 'externalDocs', 'discriminator'];
+
+/**
+ * Convert an OpenAPI schema object to the JSON Schema understood by SchemaUtils
+ * @param strict Whether an object without additionalProperties rejects undeclared properties
+ *               (false inside allOf, where each part only declares some of the properties)
+ */
+function toJsonSchema(schema: Schema, strict: boolean = true): Schema {
+  if (schema.$ref) {
+    return { $ref: `#/components/schemas/${typeName(refName(schema.$ref, 'schemas'))}` };
+  }
+
+  const result: Schema = {};
+  for (const [keyword, value] of Object.entries(schema)) {
+    if (ANNOTATION_KEYWORDS.includes(keyword)) {
+      continue;
+    }
+    if (keyword === 'properties') {
+      result.properties = Object.fromEntries(Object.entries<Schema>(value).map(([name, property]) => [name, toJsonSchema(property)]));
+    } else if (keyword === 'items' || (keyword === 'additionalProperties' && typeof value === 'object')) {
+      result[keyword] = toJsonSchema(value);
+    } else if (keyword === 'allOf') {
+      result.allOf = value.map((part: Schema) => toJsonSchema(part, false));
+    } else if (keyword === 'oneOf' || keyword === 'anyOf') {
+      result.anyOf = value.map((option: Schema) => toJsonSchema(option, strict));
+    } else {
+      result[keyword] = value;
+    }
+  }
+  if (strict && isObjectSchema(schema) && schema.properties && schema.additionalProperties === undefined) {
+    result.additionalProperties = false;
+  }
+
+  if (!schema.nullable) {
+    return result;
+  }
+  if (Array.isArray(result.enum)) {
+    result.enum = [...result.enum, null];
+  }
+  if (typeof result.type === 'string') {
+    return { ...result, type: [result.type, 'null'] };
+  }
+  return { anyOf: [result, { type: 'null' }] };
+}
+
+function isObjectSchema(schema: Schema): boolean {
+  return schema.type === 'object' || (!schema.type && schema.properties !== undefined);
+}
+
+function refName(ref: string, section: string): string {
+  const prefix = `#/components/${section}/`;
+  if (!ref.startsWith(prefix)) {
+    throw new Error(`unsupported $ref '${ref}' (only '${prefix}...' is supported here)`);
+  }
+  return ref.slice(prefix.length);
+}
+
+// Parenthesise union and intersection types used inside another type
+function wrap(type: string): string {
+  return /[|&]/.test(type) && !type.startsWith('{') ? `(${type})` : type;
+}
+
+function identifier(name: string): string {
+  const camel = name.replace(/[^A-Za-z0-9]+(.)?/g, (_match, next: string | undefined) => next ? next.toUpperCase() : '');
+  return /^[0-9]/.test(camel) ? `_${camel}` : camel;
+}
+
+function pascalCase(name: string): string {
+  const camel = identifier(name);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+function typeName(name: string): string {
+  return pascalCase(name);
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+}
+
+// e.g. GET /cart/{cartId} -> getCartByCartId
+function defaultOperationName(method: string, routePath: string): string {
+  const parts = routePath.split('/').filter(Boolean).map(segment => {
+    const parameter = /^\{(.+)\}$/.exec(segment);
+    return parameter ? `By${pascalCase(parameter[1])}` : pascalCase(segment);
+  });
+  return `${method}${parts.join('')}`;
+}
+
+function fileHeader(title: string, source: string): string {
+  return [
+    '/**',
+    ` * ${title}`,
+    ` * Generated from ${source} by scripts/generate-api-client.ts; do not edit by hand.`,
+    ' */',
+    ''
+  ].join('\n');
+}
+
+function main(): void {
+  const args = minimist(process.argv.slice(2));
+  const { config } = loadResolvedConfig();
+  const apiDir = path.join(getAppConfig(config.app).basePath, 'api');
+  const specPath = path.join(apiDir, 'openapi.yaml');
+  const source = path.relative(ROOT_DIR, specPath);
+  if (!fs.existsSync(specPath)) {
+    console.error(`No OpenAPI document for '${config.app}' at ${source}`);
+    process.exit(1);
+  }
+
+  const className = `${pascalCase(args.name || config.app)}ApiClient`;
+  const generator = new OpenApiGenerator(yaml.load(fs.readFileSync(specPath, 'utf8')) as Schema, source);
+  const operations = generator.collect();
+  const outputDir = path.join(apiDir, 'generated');
+  const files: Record<string, string> = {
+    'models.ts': generator.generateModels(),
+    'schemas.ts': generator.generateSchemas(),
+    [`${className}.ts`]: generator.generateClient(className, operations)
+  };
+
+  if (args.check) {
+    const stale = Object.entries(files)
+      .filter(([fileName, content]) => !fs.existsSync(path.join(outputDir, fileName)) || fs.readFileSync(path.join(outputDir, fileName), 'utf8') !== content)
+      .map(([fileName]) => path.relative(ROOT_DIR, path.join(outputDir, fileName)));
+    if (stale.length > 0) {
+      console.error(`Out of date with ${source}: ${stale.join(', ')}\nRun: npm run api:generate -- --app=${config.app}`);
+      process.exit(1);
+    }
+    console.log(`Generated API client for '${config.app}' is up to date`);
+    return;
+  }
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  for (const [fileName, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(outputDir, fileName), content);
+    console.log(`Wrote ${path.relative(ROOT_DIR, path.join(outputDir, fileName))}`);
+  }
+  console.log(`${operations.length} operations: ${operations.map(operation => operation.name).join(', ')}`);
+}
+
+try {
+  main();
+} catch (error: any) {
+  console.error(`Cannot generate the API client: ${error.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,96 @@
+#!/usr/bin/env ts-node
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadResolvedConfig } from '../core-framework/config/config';
+import { getAppConfig } from '../core-framework/config/app-config';
+import { findUnknownTags } from '../core-framework/config/tags';
+
+/**
+ * List the tags used by the tests of an application
+ *
+ * Tests are collected with `playwright test --list`, so tags inherited from
+ * test.describe titles and set with the `tag` option are included. Tags missing
+ * from the app's `allowedTags` are reported and make the script exit with code 1.
+ *
+ * Usage:
+ *   ts-node scripts/list-tags.ts [--app=sauce-demo] [--profile=ci]
+ */
+
+interface JsonSpec {
+  title: string;
+  file: string;
+  line: number;
+  tags: string[];
+}
+
+interface JsonSuite {
+  specs?: JsonSpec[];
+  suites?: JsonSuite[];
+}
+
+// Collect all specs of a JSON report suite tree
+function collectSpecs(suite: JsonSuite, specs: JsonSpec[] = []): JsonSpec[] {
+  specs.push(...(suite.specs ?? []));
+  (suite.suites ?? []).forEach(child => collectSpecs(child, specs));
+  return specs;
+}
+
+function main(): void {
+  const { config } = loadResolvedConfig();
+  const appConfig = getAppConfig(config.app);
+  const outputFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'list-tags-')), 'tests.json');
+
+  // List every test: no tag filter, no production exclusions
+  const env: NodeJS.ProcessEnv = { ...process.env, APP: config.app, ENV: config.env, PLAYWRIGHT_JSON_OUTPUT_FILE: outputFile };
+  delete env.TAGS;
+  if (appConfig.isProduction(config.env)) {
+    env.ENV = appConfig.validEnvironments.find(candidate => !appConfig.isProduction(candidate)) ?? config.env;
+  }
+
+  const result = spawnSync('npx', ['playwright', 'test', '--list', '--reporter=json', '--pass-with-no-tests'], { env, encoding: 'utf8', shell: process.platform === 'win32' });
+  if (result.status !== 0 || !fs.existsSync(outputFile)) {
+    console.error(result.stderr || result.stdout);
+    process.exit(result.status || 1);
+  }
+
+  const report = JSON.parse(fs.readFileSync(outputFile, 'utf8'));
+  fs.rmSync(path.dirname(outputFile), { recursive: true, force: true });
+
+  // Tag -> test locations, counting each test once across projects
+  const usage = new Map<string, Set<string>>();
+  for (const spec of collectSpecs(report)) {
+    for (const tag of spec.tags) {
+      if (!usage.has(tag)) {
+        usage.set(tag, new Set());
+      }
+      usage.get(tag)!.add(`${spec.file}:${spec.line}`);
+    }
+  }
+
+  const tags = [...usage.keys()].sort();
+  const unknownTags = findUnknownTags(tags, appConfig);
+
+  console.log(`Tags used in apps/${config.app}/tests:`);
+  for (const tag of tags) {
+    const marker = unknownTags.includes(tag) ? '  (not in allowedTags)' : '';
+    const count = usage.get(tag)!.size;
+    console.log(`  @${tag.padEnd(20)} ${String(count).padStart(4)} test${count === 1 ? '' : 's'}${marker}`);
+  }
+
+  const unusedTags = (appConfig.allowedTags ?? []).filter(tag => !usage.has(tag));
+  if (unusedTags.length > 0) {
+    console.log(`Allowed but unused: ${unusedTags.map(tag => `@${tag}`).join(', ')}`);
+  }
+
+  if (unknownTags.length > 0) {
+    console.error(`\n${unknownTags.length} tag(s) not in allowedTags of apps/${config.app}/app.config.yaml:`);
+    for (const tag of unknownTags) {
+      console.error(`  @${tag}: ${[...usage.get(tag)!].join(', ')}`);
+    }
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,10 @@
+#!/usr/bin/env ts-node
+import { loadResolvedConfig, formatConfigReport } from '../core-framework/config/config';
+
+/**
+ * Print the resolved test configuration and the layer each field came from
+ *
+ * Usage:
+ *   ts-node scripts/print-config.ts [--profile=ci] [--app=sauce-demo] [--env=qa] [...any config flag]
+ */
+console.log(formatConfigReport(loadResolvedConfig()));
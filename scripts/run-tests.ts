@@ -0,0 +1,77 @@
+#!/usr/bin/env ts-node
+import { spawnSync } from 'child_process';
+import { CONFIG_SCHEMA, ConfigField } from '../core-framework/config/config-schema';
+
+/**
+ * Run `playwright test` with the framework's command-line flags
+ *
+ * Playwright's CLI rejects options it does not know, so the flags declared in
+ * config-schema.ts (--browsers, --devices, --env, ...), --profile, --print-config and
+ * --shard are passed to the run as their environment variables; every other argument goes to
+ * Playwright unchanged.
+ *
+ * Usage:
+ *   ts-node scripts/run-tests.ts [--browsers=chromium,firefox] [--env=qa] [...playwright test options]
+ */
+
+// Framework flag -> field it sets; --profile selects the profile layer, --print-config
+// prints the resolved configuration and --shard runs a duration-balanced shard (SHARD)
+// instead of Playwright's split by test count
+const FLAGS = new Map<string, Pick<ConfigField, 'type' | 'envVar'>>([
+  ['profile', { type: 'string', envVar: 'PROFILE' }],
+  ['print-config', { type: 'boolean', envVar: 'PRINT_CONFIG' }],
+  ['shard', { type: 'string', envVar: 'SHARD' }],
+  ...CONFIG_SCHEMA.flatMap(field => (field.cliFlags ?? []).map(flag => [flag, field] as [string, ConfigField]))
+]);
+
+/**
+ * Split arguments into framework environment variables and Playwright arguments
+ * @param argv Command-line arguments
+ */
+function translateArgs(argv: string[]): { env: Record<string, string>; args: string[] } {
+  const env: Record<string, string> = {};
+  const args: string[] = [];
+
+  for (let index = 0; index < argv.length; index++) {
+    const match = /^(--[^=]+|-[^-=])(?:=(.*))?$/.exec(argv[index]);
+    const name = match?.[1].replace(/^--?/, '');
+    const field = name !== undefined ? FLAGS.get(name) : undefined;
+    if (!match || !field?.envVar || (match[1].startsWith('--') !== (name!.length > 1))) {
+      args.push(argv[index]);
+      continue;
+    }
+
+    let value: string | undefined = match[2];
+    if (value === undefined) {
+      const next = argv[index + 1];
+      if (field.type !== 'boolean') {
+        value = next?.startsWith('-') ? undefined : next;
+        index++;
+      } else if (next === 'true' || next === 'false') {
+        value = next;
+        index++;
+      } else {
+        value = 'true';
+      }
+    }
+    if (value === undefined) {
+      console.error(`${match[1]} needs a value, e.g. ${match[1]}${match[1].startsWith('--') ? '=' : ' '}<value>`);
+      process.exit(1);
+    }
+    env[field.envVar] = value;
+  }
+
+  return { env, args };
+}
+
+function main(): void {
+  const { env, args } = translateArgs(process.argv.slice(2));
+  const result = spawnSync('npx', ['playwright', 'test', ...args], {
+    env: { ...process.env, ...env },
+    stdio: 'inherit',
+    shell: process.platform === 'win32'
+  });
+  process.exit(result.status ?? 1);
+}
+
+main();
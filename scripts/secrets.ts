@@ -0,0 +1,49 @@
+#!/usr/bin/env ts-node
+import { SecretUtils } from '../core-framework/utils/SecretUtils';
+
+/**
+ * Manage the local encrypted secrets file used to resolve ${secret:NAME} placeholders in test data
+ *
+ * The file is encrypted with the key in SECRETS_KEY and written to SECRETS_FILE
+ * (default config/secrets.enc.json, which is not committed).
+ *
+ * Usage:
+ *   SECRETS_KEY=... ts-node scripts/secrets.ts set <NAME> <value>
+ *   SECRETS_KEY=... ts-node scripts/secrets.ts remove <NAME>
+ *   SECRETS_KEY=... ts-node scripts/secrets.ts list
+ */
+function main(): void {
+  const [action, name, value] = process.argv.slice(2);
+  const key = process.env.SECRETS_KEY;
+  if (!key) {
+    console.error('SECRETS_KEY must be set to read or write the secrets file');
+    process.exit(1);
+  }
+
+  const secrets = SecretUtils.readSecretsFile(key);
+  switch (action) {
+    case 'set':
+      if (!name || value === undefined) {
+        console.error('Usage: secrets set <NAME> <value>');
+        process.exit(1);
+      }
+      secrets[name] = value;
+      SecretUtils.writeSecretsFile(secrets, key);
+      console.log(`Stored ${name} in ${SecretUtils.getSecretsFilePath()}`);
+      break;
+    case 'remove':
+      delete secrets[name];
+      SecretUtils.writeSecretsFile(secrets, key);
+      console.log(`Removed ${name} from ${SecretUtils.getSecretsFilePath()}`);
+      break;
+    case 'list':
+      // Names only; values are never printed
+      Object.keys(secrets).sort().forEach(secretName => console.log(secretName));
+      break;
+    default:
+      console.error('Usage: secrets set <NAME> <value> | remove <NAME> | list');
+      process.exit(1);
+  }
+}
+
+main();